@@ -27,6 +27,18 @@ export default function SettingsLayout() {
           headerShown: false,
         }}
       />
+      <Stack.Screen
+        name="rate-history"
+        options={{
+          headerShown: false,
+        }}
+      />
+      <Stack.Screen
+        name="rate-sources"
+        options={{
+          headerShown: false,
+        }}
+      />
     </Stack>
   );
 }
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import {
   StyleSheet,
   View,
@@ -10,21 +10,18 @@ import {
   ScrollView,
 } from 'react-native';
 import { router } from 'expo-router';
-import { supabase } from '@/lib/supabase';
+import { Category, CategoryType } from '@/lib/data';
+import { useStore } from '@/lib/StoreContext';
 import { ArrowLeft, Plus, Edit2, Trash2 } from 'lucide-react-native';
 
-type CategoryType = 'income' | 'expense';
-
-type Category = {
-  id: string;
-  name: string;
-  color: string;
-  type: CategoryType;
-};
-
 export default function CategoriesSettings() {
-  const [loading, setLoading] = useState(true);
-  const [categories, setCategories] = useState<Category[]>([]);
+  const {
+    categories,
+    loading,
+    createCategory,
+    updateCategory,
+    deleteCategory,
+  } = useStore();
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
   const [formData, setFormData] = useState<{
@@ -37,77 +34,19 @@ export default function CategoriesSettings() {
     type: 'expense',
   });
 
-  useEffect(() => {
-    loadCategories();
-  }, []);
-
-  async function loadCategories() {
-    try {
-      setLoading(true);
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-      if (!user) throw new Error('User not authenticated');
-
-      const { data, error } = await supabase
-        .from('categories')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('type')
-        .order('name');
-
-      if (error) throw error;
-      setCategories(data || []);
-    } catch (error) {
-      console.error('Error loading categories:', error);
-      Alert.alert('Error', 'Failed to load categories');
-    } finally {
-      setLoading(false);
+  function handleSubmit() {
+    if (editingCategory) {
+      updateCategory(editingCategory.id, formData);
+    } else {
+      createCategory(formData);
     }
-  }
-
-  async function handleSubmit() {
-    try {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-      if (!user) throw new Error('User not authenticated');
 
-      if (editingCategory) {
-        const { error } = await supabase
-          .from('categories')
-          .update({
-            name: formData.name,
-            color: formData.color,
-            type: formData.type,
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', editingCategory.id)
-          .eq('user_id', user.id);
-
-        if (error) throw error;
-      } else {
-        const { error } = await supabase.from('categories').insert({
-          user_id: user.id,
-          name: formData.name,
-          color: formData.color,
-          type: formData.type,
-        });
-
-        if (error) throw error;
-      }
-
-      setShowAddForm(false);
-      setEditingCategory(null);
-      setFormData({ name: '', color: '#000000', type: 'expense' });
-      loadCategories();
-    } catch (error) {
-      console.error('Error saving category:', error);
-      Alert.alert('Error', 'Failed to save category');
-    }
+    setShowAddForm(false);
+    setEditingCategory(null);
+    setFormData({ name: '', color: '#000000', type: 'expense' });
   }
 
-  async function handleDelete(category: Category) {
+  function handleDelete(category: Category) {
     Alert.alert(
       'Delete Category',
       'Are you sure you want to delete this category? This will affect all transactions using this category.',
@@ -116,26 +55,7 @@ export default function CategoriesSettings() {
         {
           text: 'Delete',
           style: 'destructive',
-          onPress: async () => {
-            try {
-              const {
-                data: { user },
-              } = await supabase.auth.getUser();
-              if (!user) throw new Error('User not authenticated');
-
-              const { error } = await supabase
-                .from('categories')
-                .delete()
-                .eq('id', category.id)
-                .eq('user_id', user.id);
-
-              if (error) throw error;
-              loadCategories();
-            } catch (error) {
-              console.error('Error deleting category:', error);
-              Alert.alert('Error', 'Failed to delete category');
-            }
-          },
+          onPress: () => deleteCategory(category.id),
         },
       ]
     );
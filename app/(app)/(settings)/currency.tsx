@@ -7,52 +7,63 @@ import {
   Alert,
   ActivityIndicator,
   ScrollView,
+  TextInput,
+  Switch,
 } from 'react-native';
 import { router } from 'expo-router';
-import { supabase } from '@/lib/supabase';
-import { ArrowLeft, DollarSign, SaudiRiyal } from 'lucide-react-native';
+import {
+  ArrowLeft,
+  Check,
+  ChevronRight,
+  Landmark,
+  LineChart as LineChartIcon,
+} from 'lucide-react-native';
 import { useCurrency } from '@/lib/CurrencyContext';
+import { updateUserSettings } from '@/lib/data';
 import { Currency } from '@/lib/currency';
-
-const SUPPORTED_CURRENCIES = [
-  {
-    code: 'USD',
-    name: 'US Dollar',
-    symbol: <DollarSign size={20} color="#64748b" />,
-  },
-  {
-    code: 'SAR',
-    name: 'Saudi Riyal',
-    symbol: <SaudiRiyal size={20} color="#64748b" />,
-  },
-  { code: 'EGP', name: 'Egyptian Pound', symbol: 'EGP' },
-];
+import { CURRENCIES, CURRENCY_CODES } from '@/lib/currencies';
+import { FormatPreferences, SUPPORTED_LOCALES } from '@/lib/formatting';
+import {
+  BackfillProgress,
+  backfillExchangeRates,
+} from '@/lib/backfillExchangeRates';
+import { SwapCurrenciesButton } from '@/lib/SwapCurrenciesButton';
 
 export default function CurrencySettings() {
   const [updating, setUpdating] = useState(false);
-  const { preferredCurrency, setPreferredCurrency, loading } = useCurrency();
+  const [backfill, setBackfill] = useState<BackfillProgress | null>(null);
+  const [backfilling, setBackfilling] = useState(false);
+  const [search, setSearch] = useState('');
+  const {
+    preferredCurrency,
+    setPreferredCurrency,
+    secondaryCurrency,
+    setSecondaryCurrency,
+    enabledCurrencies,
+    setEnabledCurrencies,
+    useLockedRates,
+    setUseLockedRates,
+    formatPreferences,
+    setFormatPreferences,
+    formatAmount,
+    loading,
+  } = useCurrency();
 
   async function updateCurrencyPreference(currency: Currency) {
     try {
       setUpdating(true);
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-      if (!user) throw new Error('User not authenticated');
+      // The secondary currency can't be the preferred one too
+      const clearSecondary = currency === secondaryCurrency;
 
       // First update user preference
-      const { error: updateError } = await supabase
-        .from('users')
-        .update({
-          currency_preference: currency,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', user.id);
-
-      if (updateError) throw updateError;
+      await updateUserSettings({
+        preferredCurrency: currency,
+        ...(clearSecondary && { secondaryCurrency: null }),
+      });
 
       // Update the global context
       setPreferredCurrency(currency);
+      if (clearSecondary) setSecondaryCurrency(null);
       Alert.alert(
         'Success',
         'Currency preference updated. All amounts will be converted accordingly.'
@@ -65,6 +76,92 @@ export default function CurrencySettings() {
     }
   }
 
+  async function updateSecondaryCurrency(currency: Currency | null) {
+    try {
+      setUpdating(true);
+      await updateUserSettings({ secondaryCurrency: currency });
+
+      setSecondaryCurrency(currency);
+    } catch (error) {
+      console.error('Error updating secondary currency:', error);
+      Alert.alert('Error', 'Failed to update secondary currency');
+    } finally {
+      setUpdating(false);
+    }
+  }
+
+  async function toggleEnabledCurrency(currency: Currency) {
+    // The preferred and secondary currencies must stay enabled
+    if (currency === preferredCurrency || currency === secondaryCurrency) {
+      return;
+    }
+
+    const nextCurrencies = enabledCurrencies.includes(currency)
+      ? enabledCurrencies.filter((c) => c !== currency)
+      : [...enabledCurrencies, currency];
+
+    try {
+      setUpdating(true);
+      await updateUserSettings({ enabledCurrencies: nextCurrencies });
+
+      setEnabledCurrencies(nextCurrencies);
+    } catch (error) {
+      console.error('Error updating enabled currencies:', error);
+      Alert.alert('Error', 'Failed to update enabled currencies');
+    } finally {
+      setUpdating(false);
+    }
+  }
+
+  async function updateUseLockedRates(value: boolean) {
+    try {
+      setUpdating(true);
+      await updateUserSettings({ useLockedRates: value });
+
+      setUseLockedRates(value);
+    } catch (error) {
+      console.error('Error updating locked rates preference:', error);
+      Alert.alert('Error', 'Failed to update locked rates preference');
+    } finally {
+      setUpdating(false);
+    }
+  }
+
+  async function updateFormatPreferences(preferences: FormatPreferences) {
+    try {
+      setUpdating(true);
+      await updateUserSettings({ formatPreferences: preferences });
+
+      setFormatPreferences(preferences);
+    } catch (error) {
+      console.error('Error updating number format:', error);
+      Alert.alert('Error', 'Failed to update number format');
+    } finally {
+      setUpdating(false);
+    }
+  }
+
+  async function handleBackfill() {
+    try {
+      setBackfilling(true);
+      const result = await backfillExchangeRates(
+        preferredCurrency,
+        setBackfill
+      );
+      Alert.alert(
+        'Backfill Complete',
+        result.failed > 0
+          ? `Rates for ${result.failed} of ${result.total} dates could not be fetched.`
+          : `Filled rates for ${result.total} dates.`
+      );
+    } catch (error) {
+      console.error('Error backfilling exchange rates:', error);
+      Alert.alert('Error', 'Failed to backfill exchange rates');
+    } finally {
+      setBackfilling(false);
+    }
+  }
+
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
@@ -92,40 +189,242 @@ export default function CurrencySettings() {
         </Text>
 
         <View style={styles.currencyList}>
-          {SUPPORTED_CURRENCIES.map((currency) => (
+          {enabledCurrencies.map((code) => {
+            const currency = CURRENCIES[code];
+            return (
+              <TouchableOpacity
+                key={currency.code}
+                style={[
+                  styles.currencyOption,
+                  preferredCurrency === currency.code &&
+                    styles.currencyOptionActive,
+                ]}
+                onPress={() => updateCurrencyPreference(currency.code)}
+                disabled={updating}
+              >
+                <View style={styles.currencyInfo}>
+                  <View style={styles.currencySymbol}>
+                    <Text style={styles.currencySymbolText}>
+                      {currency.flag}
+                    </Text>
+                  </View>
+                  <View>
+                    <Text style={styles.currencyCode}>{currency.code}</Text>
+                    <Text style={styles.currencyName}>{currency.name}</Text>
+                  </View>
+                </View>
+                {preferredCurrency === currency.code && (
+                  <View style={styles.selectedIndicator} />
+                )}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Secondary Currency</Text>
+          <SwapCurrenciesButton />
+        </View>
+        <Text style={styles.description}>
+          Show amounts in a second currency too, e.g. SAR 100 ≈ EGP 1,300. Swap
+          to convert reports into it instead.
+        </Text>
+        <View style={styles.currencyList}>
+          <TouchableOpacity
+            style={[
+              styles.currencyOption,
+              !secondaryCurrency && styles.currencyOptionActive,
+            ]}
+            onPress={() => updateSecondaryCurrency(null)}
+            disabled={updating}
+          >
+            <Text style={styles.currencyCode}>None</Text>
+            {!secondaryCurrency && <View style={styles.selectedIndicator} />}
+          </TouchableOpacity>
+          {enabledCurrencies
+            .filter((code) => code !== preferredCurrency)
+            .map((code) => {
+              const currency = CURRENCIES[code];
+              return (
+                <TouchableOpacity
+                  key={currency.code}
+                  style={[
+                    styles.currencyOption,
+                    secondaryCurrency === currency.code &&
+                      styles.currencyOptionActive,
+                  ]}
+                  onPress={() => updateSecondaryCurrency(currency.code)}
+                  disabled={updating}
+                >
+                  <Text style={styles.currencyCode}>
+                    {currency.flag} {currency.code} · {currency.name}
+                  </Text>
+                  {secondaryCurrency === currency.code && (
+                    <View style={styles.selectedIndicator} />
+                  )}
+                </TouchableOpacity>
+              );
+            })}
+        </View>
+
+        <Text style={styles.sectionTitle}>Number Format</Text>
+        <Text style={styles.description}>
+          Preview: {formatAmount(12345.678, preferredCurrency)}
+        </Text>
+        <View style={styles.currencyList}>
+          {SUPPORTED_LOCALES.map((locale) => (
             <TouchableOpacity
-              key={currency.code}
+              key={locale.code}
               style={[
                 styles.currencyOption,
-                preferredCurrency === currency.code &&
+                formatPreferences.locale === locale.code &&
                   styles.currencyOptionActive,
               ]}
               onPress={() =>
-                updateCurrencyPreference(currency.code as Currency)
+                updateFormatPreferences({
+                  ...formatPreferences,
+                  locale: locale.code,
+                })
               }
               disabled={updating}
             >
-              <View style={styles.currencyInfo}>
-                <View style={styles.currencySymbol}>
-                  {typeof currency.symbol === 'string' ? (
-                    <Text style={styles.currencySymbolText}>
-                      {currency.symbol}
-                    </Text>
-                  ) : (
-                    currency.symbol
-                  )}
-                </View>
-                <View>
-                  <Text style={styles.currencyCode}>{currency.code}</Text>
-                  <Text style={styles.currencyName}>{currency.name}</Text>
-                </View>
+              <View>
+                <Text style={styles.currencyCode}>{locale.name}</Text>
+                <Text style={styles.currencyName}>{locale.code}</Text>
               </View>
-              {preferredCurrency === currency.code && (
+              {formatPreferences.locale === locale.code && (
                 <View style={styles.selectedIndicator} />
               )}
             </TouchableOpacity>
           ))}
         </View>
+        <View style={styles.switchRow}>
+          <Text style={styles.switchLabel}>Arabic-Indic digits (٠١٢٣)</Text>
+          <Switch
+            value={formatPreferences.numberingSystem === 'arab'}
+            onValueChange={(value) =>
+              updateFormatPreferences({
+                ...formatPreferences,
+                numberingSystem: value ? 'arab' : 'latn',
+              })
+            }
+            disabled={updating}
+            trackColor={{ true: '#0891b2' }}
+          />
+        </View>
+
+        <Text style={[styles.sectionTitle, styles.sectionSpacing]}>
+          Enabled Currencies
+        </Text>
+        <Text style={styles.description}>
+          Choose the currencies you use. Only enabled currencies are offered
+          when adding transactions.
+        </Text>
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Search currencies"
+          value={search}
+          onChangeText={setSearch}
+          placeholderTextColor="#94a3b8"
+          autoCapitalize="none"
+        />
+        <View style={styles.currencyList}>
+          {CURRENCY_CODES.map((code) => CURRENCIES[code])
+            .filter(
+              (currency) =>
+                !search ||
+                currency.code.toLowerCase().includes(search.toLowerCase()) ||
+                currency.name.toLowerCase().includes(search.toLowerCase())
+            )
+            .map((currency) => {
+              const enabled = enabledCurrencies.includes(currency.code);
+              return (
+                <TouchableOpacity
+                  key={currency.code}
+                  style={styles.enabledOption}
+                  onPress={() => toggleEnabledCurrency(currency.code)}
+                  disabled={
+                    updating ||
+                    currency.code === preferredCurrency ||
+                    currency.code === secondaryCurrency
+                  }
+                >
+                  <Text style={styles.enabledOptionText}>
+                    {currency.flag} {currency.code} · {currency.name}
+                  </Text>
+                  <View
+                    style={[styles.checkbox, enabled && styles.checkboxActive]}
+                  >
+                    {enabled && <Check size={14} color="#fff" />}
+                  </View>
+                </TouchableOpacity>
+              );
+            })}
+        </View>
+
+        <Text style={styles.sectionTitle}>Locked Rates</Text>
+        <View style={styles.switchRow}>
+          <Text style={styles.switchLabel}>
+            Use the rate locked on each transaction
+          </Text>
+          <Switch
+            value={useLockedRates}
+            onValueChange={updateUseLockedRates}
+            disabled={updating}
+            trackColor={{ true: '#0891b2' }}
+          />
+        </View>
+        <Text style={styles.description}>
+          Turn off to recompute every report from the stored exchange rates.
+        </Text>
+
+        <Text style={styles.sectionTitle}>Custom Rates</Text>
+        <Text style={styles.description}>
+          Convert pairs at your bank's or the parallel-market rate instead of
+          the official rate.
+        </Text>
+        <TouchableOpacity
+          style={[styles.linkButton, styles.linkButtonSpacing]}
+          onPress={() => router.push('./rate-sources')}
+        >
+          <View style={styles.currencyInfo}>
+            <Landmark size={20} color="#0891b2" />
+            <Text style={styles.linkButtonText}>Manage Rate Sources</Text>
+          </View>
+          <ChevronRight size={20} color="#94a3b8" />
+        </TouchableOpacity>
+
+        <Text style={styles.sectionTitle}>Historical Rates</Text>
+        <Text style={styles.description}>
+          Transactions are converted at the rate of their own date. Fill in
+          missing rates for all of your existing transactions.
+        </Text>
+        <TouchableOpacity
+          style={styles.linkButton}
+          onPress={() => router.push('./rate-history')}
+        >
+          <View style={styles.currencyInfo}>
+            <LineChartIcon size={20} color="#0891b2" />
+            <Text style={styles.linkButtonText}>View Rate History</Text>
+          </View>
+          <ChevronRight size={20} color="#94a3b8" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, backfilling && styles.buttonDisabled]}
+          onPress={handleBackfill}
+          disabled={backfilling}
+        >
+          {backfilling ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.buttonText}>Backfill Historical Rates</Text>
+          )}
+        </TouchableOpacity>
+        {backfilling && backfill && (
+          <Text style={styles.progressText}>
+            {backfill.done} of {backfill.total} dates
+          </Text>
+        )}
 
         <Text style={styles.note}>
           Note: Exchange rates are updated in real-time using ExchangeRate-API.
@@ -218,13 +517,115 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#64748b',
   },
+  searchInput: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#0f172a',
+    marginBottom: 12,
+  },
+  enabledOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  enabledOptionText: {
+    fontSize: 16,
+    color: '#0f172a',
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 4,
+    borderWidth: 1,
+    borderColor: '#cbd5e1',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  checkboxActive: {
+    backgroundColor: '#0891b2',
+    borderColor: '#0891b2',
+  },
   selectedIndicator: {
     width: 8,
     height: 8,
     borderRadius: 4,
     backgroundColor: '#0891b2',
   },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#0f172a',
+    marginBottom: 8,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  sectionSpacing: {
+    marginTop: 24,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  switchLabel: {
+    flex: 1,
+    fontSize: 16,
+    color: '#0f172a',
+    marginRight: 12,
+  },
+  button: {
+    backgroundColor: '#0891b2',
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  linkButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  linkButtonSpacing: {
+    marginBottom: 24,
+  },
+  linkButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#0f172a',
+    marginLeft: 12,
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  progressText: {
+    marginTop: 8,
+    fontSize: 14,
+    color: '#64748b',
+    textAlign: 'center',
+  },
   note: {
+    marginTop: 24,
     fontSize: 14,
     color: '#94a3b8',
     fontStyle: 'italic',
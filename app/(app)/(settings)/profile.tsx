@@ -9,7 +9,7 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { router } from 'expo-router';
-import { supabase } from '@/lib/supabase';
+import { getProfile, updateProfile } from '@/lib/data';
 import { ArrowLeft } from 'lucide-react-native';
 
 export default function ProfileSettings() {
@@ -27,28 +27,7 @@ export default function ProfileSettings() {
   async function loadUserData() {
     try {
       setLoading(true);
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-      if (!user) throw new Error('User not authenticated');
-
-      const { data, error } = await supabase
-        .from('auth.users')
-        .select('full_name, email')
-        .eq('id', user.id)
-        .single();
-
-      if (error) {
-        setUserData({
-          full_name: user.user_metadata?.full_name || '',
-          email: user.email || '',
-        });
-      } else if (data) {
-        setUserData({
-          full_name: data.full_name || '',
-          email: data.email || user.email || '',
-        });
-      }
+      setUserData(await getProfile());
     } catch (error) {
       console.error('Error loading user data:', error);
       Alert.alert('Error', 'Failed to load user data');
@@ -57,19 +36,10 @@ export default function ProfileSettings() {
     }
   }
 
-  async function updateProfile() {
+  async function saveProfile() {
     try {
       setUpdating(true);
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-      if (!user) throw new Error('User not authenticated');
-
-      const { error } = await supabase.auth.updateUser({
-        data: { full_name: userData.full_name },
-      });
-
-      if (error) throw error;
+      await updateProfile({ full_name: userData.full_name });
 
       Alert.alert('Success', 'Profile updated successfully');
     } catch (error) {
@@ -128,7 +98,7 @@ export default function ProfileSettings() {
 
         <TouchableOpacity
           style={[styles.button, updating && styles.buttonDisabled]}
-          onPress={updateProfile}
+          onPress={saveProfile}
           disabled={updating}
         >
           {updating ? (
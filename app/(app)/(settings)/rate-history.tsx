@@ -0,0 +1,478 @@
+import { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  ActivityIndicator,
+  ScrollView,
+  Dimensions,
+} from 'react-native';
+import { router } from 'expo-router';
+import { ArrowLeft, ArrowLeftRight } from 'lucide-react-native';
+import { LineChart } from 'react-native-chart-kit';
+import { format } from 'date-fns';
+import { useCurrency } from '@/lib/CurrencyContext';
+import { Currency } from '@/lib/currency';
+import {
+  RATE_PERIODS,
+  RatePeriod,
+  RatePoint,
+  getRateHistory,
+  getRateStats,
+} from '@/lib/rateHistory';
+
+// Keep the x axis readable for long periods
+const MAX_CHART_LABELS = 5;
+
+export default function RateHistory() {
+  const {
+    preferredCurrency,
+    enabledCurrencies,
+    formatAmount,
+    formatRate,
+    loading: currencyLoading,
+  } = useCurrency();
+
+  const [fromCurrency, setFromCurrency] = useState<Currency>(preferredCurrency);
+  const [toCurrency, setToCurrency] = useState<Currency>(
+    enabledCurrencies.find((c) => c !== preferredCurrency) || preferredCurrency
+  );
+  const [period, setPeriod] = useState<RatePeriod>('3M');
+  const [points, setPoints] = useState<RatePoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadHistory();
+  }, [fromCurrency, toCurrency, period]);
+
+  async function loadHistory() {
+    try {
+      setLoading(true);
+      setError(null);
+      setPoints(
+        await getRateHistory(
+          fromCurrency,
+          toCurrency,
+          period,
+          preferredCurrency
+        )
+      );
+    } catch (error) {
+      console.error('Error loading rate history:', error);
+      setError(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function swapCurrencies() {
+    setFromCurrency(toCurrency);
+    setToCurrency(fromCurrency);
+  }
+
+  if (currencyLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#0891b2" />
+      </View>
+    );
+  }
+
+  const stats = getRateStats(points);
+  const labelStep = Math.ceil(points.length / MAX_CHART_LABELS);
+  const chartData = {
+    labels: points.map((point, index) =>
+      index % labelStep === 0 ? format(new Date(point.date), 'MMM d') : ''
+    ),
+    datasets: [{ data: points.map((point) => point.rate) }],
+  };
+
+  const renderCurrencyPicker = (
+    selected: Currency,
+    onSelect: (currency: Currency) => void
+  ) => (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+      {enabledCurrencies.map((currency) => (
+        <TouchableOpacity
+          key={currency}
+          style={[styles.chip, selected === currency && styles.chipActive]}
+          onPress={() => onSelect(currency)}
+        >
+          <Text
+            style={[
+              styles.chipText,
+              selected === currency && styles.chipTextActive,
+            ]}
+          >
+            {currency}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={styles.backButton}
+        >
+          <ArrowLeft size={24} color="#0f172a" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Rate History</Text>
+      </View>
+
+      <ScrollView style={styles.content}>
+        <View style={styles.pairRow}>
+          <View style={styles.pairPicker}>
+            <Text style={styles.label}>From</Text>
+            {renderCurrencyPicker(fromCurrency, setFromCurrency)}
+          </View>
+          <TouchableOpacity style={styles.swapButton} onPress={swapCurrencies}>
+            <ArrowLeftRight size={20} color="#0891b2" />
+          </TouchableOpacity>
+        </View>
+        <View style={styles.pairPicker}>
+          <Text style={styles.label}>To</Text>
+          {renderCurrencyPicker(toCurrency, setToCurrency)}
+        </View>
+
+        <View style={styles.periodRow}>
+          {RATE_PERIODS.map((option) => (
+            <TouchableOpacity
+              key={option.value}
+              style={[
+                styles.chip,
+                period === option.value && styles.chipActive,
+              ]}
+              onPress={() => setPeriod(option.value)}
+            >
+              <Text
+                style={[
+                  styles.chipText,
+                  period === option.value && styles.chipTextActive,
+                ]}
+              >
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {loading ? (
+          <ActivityIndicator
+            size="large"
+            color="#0891b2"
+            style={styles.loadingIndicator}
+          />
+        ) : error ? (
+          <Text style={styles.errorText}>{error}</Text>
+        ) : fromCurrency === toCurrency ? (
+          <Text style={styles.emptyText}>Choose two different currencies.</Text>
+        ) : points.length === 0 || !stats ? (
+          <Text style={styles.emptyText}>
+            No stored rates for {fromCurrency}/{toCurrency} in this period.
+          </Text>
+        ) : (
+          <>
+            <Text style={styles.pairTitle}>
+              1 {fromCurrency} = {formatRate(points[points.length - 1].rate)}{' '}
+              {toCurrency}
+            </Text>
+
+            <View style={styles.chartContainer}>
+              <LineChart
+                data={chartData}
+                width={Dimensions.get('window').width - 40}
+                height={220}
+                yAxisLabel=""
+                yAxisSuffix=""
+                formatYLabel={(value) => formatRate(Number(value))}
+                withDots={points.length <= 31}
+                chartConfig={{
+                  backgroundColor: '#fff',
+                  backgroundGradientFrom: '#fff',
+                  backgroundGradientTo: '#fff',
+                  decimalPlaces: 4,
+                  color: (opacity = 1) => `rgba(8, 145, 178, ${opacity})`,
+                  labelColor: (opacity = 1) => `rgba(15, 23, 42, ${opacity})`,
+                  style: {
+                    borderRadius: 16,
+                  },
+                  propsForDots: {
+                    r: '3',
+                    strokeWidth: '1',
+                    stroke: '#0891b2',
+                  },
+                }}
+                style={styles.chart}
+              />
+            </View>
+
+            <View style={styles.statsGrid}>
+              <View style={styles.statCard}>
+                <Text style={styles.statLabel}>Min</Text>
+                <Text style={styles.statValue}>{formatRate(stats.min)}</Text>
+              </View>
+              <View style={styles.statCard}>
+                <Text style={styles.statLabel}>Max</Text>
+                <Text style={styles.statValue}>{formatRate(stats.max)}</Text>
+              </View>
+              <View style={styles.statCard}>
+                <Text style={styles.statLabel}>Average</Text>
+                <Text style={styles.statValue}>
+                  {formatRate(stats.average)}
+                </Text>
+              </View>
+              <View style={styles.statCard}>
+                <Text style={styles.statLabel}>Change</Text>
+                <Text
+                  style={[
+                    styles.statValue,
+                    stats.change < 0 ? styles.negative : styles.positive,
+                  ]}
+                >
+                  {stats.change > 0 ? '+' : ''}
+                  {formatRate(Number(stats.change.toFixed(2)))}%
+                </Text>
+              </View>
+            </View>
+
+            <Text style={styles.sectionTitle}>Rates</Text>
+            {points
+              .slice()
+              .reverse()
+              .map((point) => (
+                <View key={point.date} style={styles.rateItem}>
+                  <View style={styles.rateHeader}>
+                    <Text style={styles.rateDate}>
+                      {format(new Date(point.date), 'MMM d, yyyy')}
+                    </Text>
+                    <Text style={styles.rateValue}>
+                      {formatRate(point.rate)}
+                      {point.isBackfilled ? ' (est.)' : ''}
+                    </Text>
+                  </View>
+                  {point.transactions.map((transaction) => (
+                    <TouchableOpacity
+                      key={transaction.id}
+                      style={styles.transactionRow}
+                      onPress={() =>
+                        router.push(`/transaction/${transaction.id}`)
+                      }
+                    >
+                      <Text
+                        style={styles.transactionDescription}
+                        numberOfLines={1}
+                      >
+                        {transaction.description}
+                      </Text>
+                      <Text
+                        style={[
+                          styles.transactionAmount,
+                          transaction.type === 'expense'
+                            ? styles.negative
+                            : styles.positive,
+                        ]}
+                      >
+                        {formatAmount(transaction.amount, transaction.currency)}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              ))}
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f9fafb',
+  },
+  loadingIndicator: {
+    marginTop: 40,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#0f172a',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#64748b',
+    marginBottom: 8,
+  },
+  pairRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+  },
+  pairPicker: {
+    flex: 1,
+    marginBottom: 16,
+  },
+  swapButton: {
+    padding: 8,
+    marginLeft: 8,
+    marginBottom: 16,
+  },
+  periodRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipActive: {
+    backgroundColor: '#0891b2',
+    borderColor: '#0891b2',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#0f172a',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  pairTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#0f172a',
+    marginBottom: 8,
+  },
+  chartContainer: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    marginBottom: 16,
+  },
+  chart: {
+    marginVertical: 8,
+    borderRadius: 16,
+  },
+  statsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    marginBottom: 24,
+  },
+  statCard: {
+    width: '48%',
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  statLabel: {
+    fontSize: 14,
+    color: '#64748b',
+    marginBottom: 4,
+  },
+  statValue: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#0f172a',
+  },
+  positive: {
+    color: '#10b981',
+  },
+  negative: {
+    color: '#ef4444',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#0f172a',
+    marginBottom: 8,
+  },
+  rateItem: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  rateHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  rateDate: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  rateValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#0f172a',
+  },
+  transactionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+  },
+  transactionDescription: {
+    flex: 1,
+    fontSize: 14,
+    color: '#0f172a',
+    marginRight: 12,
+  },
+  transactionAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#64748b',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#ef4444',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+});
@@ -0,0 +1,552 @@
+import { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { router } from 'expo-router';
+import { format } from 'date-fns';
+import { ArrowLeft, Plus, Trash2 } from 'lucide-react-native';
+import { useCurrency } from '@/lib/CurrencyContext';
+import { Currency } from '@/lib/currency';
+import {
+  CustomRateData,
+  clearCustomRates,
+  createRateSource,
+  deleteCustomRate,
+  deleteRateSource,
+  getPairSource,
+  loadCustomRates,
+  saveCustomRate,
+  setPairSource,
+  sortPair,
+} from '@/lib/customRates';
+
+export default function RateSources() {
+  const { enabledCurrencies, formatRate } = useCurrency();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [data, setData] = useState<CustomRateData>({
+    sources: [],
+    rates: [],
+    pairSources: [],
+  });
+  const [newSourceName, setNewSourceName] = useState('');
+  const [selectedSource, setSelectedSource] = useState<string | null>(null);
+  const [rateForm, setRateForm] = useState<{
+    from: Currency;
+    to: Currency;
+    date: string;
+    rate: string;
+  }>({
+    from: 'USD',
+    to: enabledCurrencies.find((c) => c !== 'USD') || 'EGP',
+    date: format(new Date(), 'yyyy-MM-dd'),
+    rate: '',
+  });
+
+  // Every pair of enabled currencies, each listed once
+  const pairs = enabledCurrencies
+    .flatMap((a) =>
+      enabledCurrencies.filter((b) => a < b).map((b) => sortPair(a, b))
+    )
+    .sort((x, y) => x.join().localeCompare(y.join()));
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  async function loadData() {
+    try {
+      setLoading(true);
+      clearCustomRates();
+      const loaded = await loadCustomRates();
+      setData(loaded);
+      if (
+        !selectedSource ||
+        !loaded.sources.some((source) => source.id === selectedSource)
+      ) {
+        setSelectedSource(loaded.sources[0]?.id ?? null);
+      }
+    } catch (error) {
+      console.error('Error loading rate sources:', error);
+      Alert.alert('Error', 'Failed to load rate sources');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleAddSource() {
+    if (!newSourceName.trim()) {
+      Alert.alert('Error', 'Please enter a source name');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const source = await createRateSource(newSourceName);
+      setNewSourceName('');
+      setSelectedSource(source.id);
+      await loadData();
+    } catch (error) {
+      console.error('Error creating rate source:', error);
+      Alert.alert('Error', 'Failed to create rate source');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function handleDeleteSource(id: string) {
+    Alert.alert(
+      'Delete Source',
+      'Are you sure you want to delete this source and its rates? Pairs using it will go back to official rates.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteRateSource(id);
+              loadData();
+            } catch (error) {
+              console.error('Error deleting rate source:', error);
+              Alert.alert('Error', 'Failed to delete rate source');
+            }
+          },
+        },
+      ]
+    );
+  }
+
+  async function handleSelectPairSource(
+    pair: [Currency, Currency],
+    sourceId: string | null
+  ) {
+    try {
+      setSaving(true);
+      await setPairSource(pair[0], pair[1], sourceId);
+      await loadData();
+    } catch (error) {
+      console.error('Error updating pair source:', error);
+      Alert.alert('Error', 'Failed to update conversion source');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleSaveRate() {
+    const rate = Number(rateForm.rate);
+    if (!selectedSource) return;
+    if (rateForm.from === rateForm.to) {
+      Alert.alert('Error', 'Please choose two different currencies');
+      return;
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(rateForm.date)) {
+      Alert.alert('Error', 'Please enter the date as YYYY-MM-DD');
+      return;
+    }
+    if (!rateForm.rate || isNaN(rate) || rate <= 0) {
+      Alert.alert('Error', 'Please enter a valid rate');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await saveCustomRate({
+        source_id: selectedSource,
+        from_currency: rateForm.from,
+        to_currency: rateForm.to,
+        date: rateForm.date,
+        rate,
+      });
+      setRateForm({ ...rateForm, rate: '' });
+      await loadData();
+    } catch (error) {
+      console.error('Error saving custom rate:', error);
+      Alert.alert('Error', 'Failed to save rate');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDeleteRate(id: string) {
+    try {
+      await deleteCustomRate(id);
+      loadData();
+    } catch (error) {
+      console.error('Error deleting custom rate:', error);
+      Alert.alert('Error', 'Failed to delete rate');
+    }
+  }
+
+  const renderCurrencyPicker = (
+    selected: Currency,
+    onSelect: (currency: Currency) => void
+  ) => (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+      {enabledCurrencies.map((currency) => (
+        <TouchableOpacity
+          key={currency}
+          style={[styles.chip, selected === currency && styles.chipActive]}
+          onPress={() => onSelect(currency)}
+        >
+          <Text
+            style={[
+              styles.chipText,
+              selected === currency && styles.chipTextActive,
+            ]}
+          >
+            {currency}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#0891b2" />
+      </View>
+    );
+  }
+
+  const sourceRates = data.rates
+    .filter((rate) => rate.source_id === selectedSource)
+    .slice()
+    .reverse();
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={styles.backButton}
+        >
+          <ArrowLeft size={24} color="#0f172a" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Rate Sources</Text>
+      </View>
+
+      <ScrollView style={styles.content}>
+        <Text style={styles.description}>
+          Add the rates you actually get, e.g. from your bank or the parallel
+          market, and choose which pairs are converted with them.
+        </Text>
+
+        <Text style={styles.sectionTitle}>Sources</Text>
+        {data.sources.map((source) => (
+          <View key={source.id} style={styles.listItem}>
+            <Text style={styles.listItemText}>{source.name}</Text>
+            <TouchableOpacity onPress={() => handleDeleteSource(source.id)}>
+              <Trash2 size={16} color="#ef4444" />
+            </TouchableOpacity>
+          </View>
+        ))}
+        <View style={styles.addRow}>
+          <TextInput
+            style={[styles.input, styles.addInput]}
+            placeholder="New source, e.g. Bank"
+            value={newSourceName}
+            onChangeText={setNewSourceName}
+            placeholderTextColor="#94a3b8"
+          />
+          <TouchableOpacity
+            style={styles.addButton}
+            onPress={handleAddSource}
+            disabled={saving}
+          >
+            <Plus size={20} color="#fff" />
+          </TouchableOpacity>
+        </View>
+
+        <Text style={[styles.sectionTitle, styles.sectionSpacing]}>
+          Conversion Source
+        </Text>
+        <Text style={styles.description}>
+          Pairs set to Official use the published exchange rates.
+        </Text>
+        {pairs.map((pair) => {
+          const current = getPairSource(data, pair[0], pair[1]);
+          return (
+            <View key={pair.join()} style={styles.pairItem}>
+              <Text style={styles.pairLabel}>
+                {pair[0]} / {pair[1]}
+              </Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                {[{ id: null, name: 'Official' }, ...data.sources].map(
+                  (source) => (
+                    <TouchableOpacity
+                      key={source.id ?? 'official'}
+                      style={[
+                        styles.chip,
+                        current === source.id && styles.chipActive,
+                      ]}
+                      onPress={() => handleSelectPairSource(pair, source.id)}
+                      disabled={saving}
+                    >
+                      <Text
+                        style={[
+                          styles.chipText,
+                          current === source.id && styles.chipTextActive,
+                        ]}
+                      >
+                        {source.name}
+                      </Text>
+                    </TouchableOpacity>
+                  )
+                )}
+              </ScrollView>
+            </View>
+          );
+        })}
+
+        {data.sources.length > 0 && (
+          <>
+            <Text style={[styles.sectionTitle, styles.sectionSpacing]}>
+              Rates
+            </Text>
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={styles.sourceTabs}
+            >
+              {data.sources.map((source) => (
+                <TouchableOpacity
+                  key={source.id}
+                  style={[
+                    styles.chip,
+                    selectedSource === source.id && styles.chipActive,
+                  ]}
+                  onPress={() => setSelectedSource(source.id)}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      selectedSource === source.id && styles.chipTextActive,
+                    ]}
+                  >
+                    {source.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+
+            <View style={styles.form}>
+              <Text style={styles.label}>From</Text>
+              {renderCurrencyPicker(rateForm.from, (from) =>
+                setRateForm({ ...rateForm, from })
+              )}
+              <Text style={styles.label}>To</Text>
+              {renderCurrencyPicker(rateForm.to, (to) =>
+                setRateForm({ ...rateForm, to })
+              )}
+              <Text style={styles.label}>Effective From</Text>
+              <TextInput
+                style={styles.input}
+                value={rateForm.date}
+                onChangeText={(date) => setRateForm({ ...rateForm, date })}
+                placeholder="YYYY-MM-DD"
+                placeholderTextColor="#94a3b8"
+              />
+              <Text style={styles.label}>
+                1 {rateForm.from} = ? {rateForm.to}
+              </Text>
+              <TextInput
+                style={styles.input}
+                value={rateForm.rate}
+                onChangeText={(rate) => setRateForm({ ...rateForm, rate })}
+                keyboardType="decimal-pad"
+                placeholder="0.00"
+                placeholderTextColor="#94a3b8"
+              />
+              <TouchableOpacity
+                style={[styles.button, saving && styles.buttonDisabled]}
+                onPress={handleSaveRate}
+                disabled={saving}
+              >
+                <Text style={styles.buttonText}>Save Rate</Text>
+              </TouchableOpacity>
+            </View>
+
+            {sourceRates.map((rate) => (
+              <View key={rate.id} style={styles.listItem}>
+                <View>
+                  <Text style={styles.listItemText}>
+                    1 {rate.from_currency} = {formatRate(rate.rate)}{' '}
+                    {rate.to_currency}
+                  </Text>
+                  <Text style={styles.listItemSubtext}>
+                    From {format(new Date(rate.date), 'MMM d, yyyy')}
+                  </Text>
+                </View>
+                <TouchableOpacity onPress={() => handleDeleteRate(rate.id)}>
+                  <Trash2 size={16} color="#ef4444" />
+                </TouchableOpacity>
+              </View>
+            ))}
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f9fafb',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#0f172a',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  description: {
+    fontSize: 16,
+    color: '#64748b',
+    marginBottom: 16,
+    lineHeight: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#0f172a',
+    marginBottom: 8,
+  },
+  sectionSpacing: {
+    marginTop: 24,
+  },
+  listItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  listItemText: {
+    fontSize: 16,
+    color: '#0f172a',
+  },
+  listItemSubtext: {
+    fontSize: 14,
+    color: '#64748b',
+    marginTop: 4,
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  addInput: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  addButton: {
+    backgroundColor: '#0891b2',
+    padding: 12,
+    borderRadius: 8,
+    marginLeft: 8,
+  },
+  pairItem: {
+    marginBottom: 12,
+  },
+  pairLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#0f172a',
+    marginBottom: 8,
+  },
+  sourceTabs: {
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipActive: {
+    backgroundColor: '#0891b2',
+    borderColor: '#0891b2',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#0f172a',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  form: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#64748b',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#0f172a',
+    marginBottom: 12,
+  },
+  button: {
+    backgroundColor: '#0891b2',
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
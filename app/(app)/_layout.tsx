@@ -46,6 +46,12 @@ export default function AppLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="fx-report"
+        options={{
+          href: null,
+        }}
+      />
       <Tabs.Screen
         name="(settings)"
         options={{
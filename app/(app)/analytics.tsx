@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   StyleSheet,
   View,
@@ -8,27 +8,13 @@ import {
   Dimensions,
   RefreshControl,
 } from 'react-native';
-import { supabase } from '@/lib/supabase';
+import { useStore } from '@/lib/StoreContext';
 import { PieChart } from 'react-native-chart-kit';
-import { Currency, formatAmount } from '@/lib/currency';
+import { Money } from '@/lib/money';
+import { getFxEffect } from '@/lib/reportConversion';
+import { ConversionModeBar } from '@/lib/ConversionModeBar';
 import { useCurrency } from '@/lib/CurrencyContext';
-import { useFocusEffect } from 'expo-router';
-
-type Category = {
-  id: string;
-  name: string;
-  color: string;
-};
-
-type Transaction = {
-  id: string;
-  amount: number;
-  currency: Currency;
-  type: 'income' | 'expense';
-  date: string;
-  category_id: string | null;
-  categories: Category | null;
-};
+import { format } from 'date-fns';
 
 type CategoryTotal = {
   category: string;
@@ -45,96 +31,107 @@ export default function Analytics() {
   );
   const [totalExpenses, setTotalExpenses] = useState(0);
   const [totalIncome, setTotalIncome] = useState(0);
-  const { preferredCurrency, convertToPreferred } = useCurrency();
+  const [ratesAsOf, setRatesAsOf] = useState<Date | null>(null);
+  const [fxEffect, setFxEffect] = useState(0);
+  const {
+    preferredCurrency,
+    useLockedRates,
+    conversionMode,
+    convertReport,
+    formatAmount,
+    formatSecondary,
+  } = useCurrency();
 
-  useFocusEffect(
-    React.useCallback(() => {
-      fetchAnalytics();
-    }, [preferredCurrency])
-  );
+  const {
+    amounts: transactions,
+    categories,
+    loading: storeLoading,
+    refresh,
+  } = useStore();
+
+  // Recalculated whenever a transaction changes, here or on another device
+  useEffect(() => {
+    if (!storeLoading) fetchAnalytics();
+  }, [
+    transactions,
+    categories,
+    storeLoading,
+    preferredCurrency,
+    useLockedRates,
+    conversionMode,
+  ]);
 
   const onRefresh = async () => {
     setRefreshing(true);
-    await fetchAnalytics();
+    await refresh();
     setRefreshing(false);
   };
 
   async function fetchAnalytics() {
     try {
-      setLoading(true);
       setError(null);
 
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-      if (!user) throw new Error('User not authenticated');
-
-      // Fetch transactions with their categories
-      const { data: transactions, error: transactionError } = await supabase
-        .from('transactions')
-        .select(
-          `
-          id,
-          amount,
-          currency,
-          type,
-          date,
-          category_id,
-          categories:category_id (
-            id,
-            name,
-            color
-          )
-        `
-        )
-        .eq('user_id', user.id)
-        .returns<Transaction[]>();
-
-      if (transactionError) throw transactionError;
-
-      if (!transactions || transactions.length === 0) {
+      if (transactions.length === 0) {
         setExpensesByCategory([]);
         setTotalExpenses(0);
         setTotalIncome(0);
+        setFxEffect(0);
         return;
       }
 
       // Process data for charts
-      const categoryTotals: Record<string, CategoryTotal> = {};
-      let totalExp = 0;
-      let totalInc = 0;
+      const categoryTotals: Record<string, { total: Money; color: string }> =
+        {};
+      let totalExp = Money.zero(preferredCurrency);
+      let totalInc = Money.zero(preferredCurrency);
+
+      const categoriesById = new Map(
+        categories.map((category) => [category.id, category])
+      );
+
+      const conversion = await convertReport(transactions);
+      const { amounts: convertedAmounts, asOf } = conversion[conversionMode];
 
-      await Promise.all(
-        transactions.map(async (transaction) => {
-          const convertedAmount = await convertToPreferred(
-            transaction.amount,
-            transaction.currency as Currency,
-            new Date(transaction.date)
-          );
+      transactions.forEach((transaction, index) => {
+        const convertedAmount = Money.fromMajor(
+          convertedAmounts[index],
+          preferredCurrency
+        );
 
-          if (transaction.type === 'expense') {
-            totalExp += convertedAmount;
-            const categoryName =
-              transaction.categories?.name || 'Uncategorized';
-            const categoryColor = transaction.categories?.color || '#cbd5e1';
+        if (transaction.type === 'expense') {
+          totalExp = totalExp.add(convertedAmount);
+          const category = transaction.category_id
+            ? categoriesById.get(transaction.category_id)
+            : undefined;
+          const categoryName = category?.name || 'Uncategorized';
+          const categoryColor = category?.color || '#cbd5e1';
 
-            if (!categoryTotals[categoryName]) {
-              categoryTotals[categoryName] = {
-                category: categoryName,
-                total: 0,
-                color: categoryColor,
-              };
-            }
-            categoryTotals[categoryName].total += convertedAmount;
-          } else {
-            totalInc += convertedAmount;
+          if (!categoryTotals[categoryName]) {
+            categoryTotals[categoryName] = {
+              total: Money.zero(preferredCurrency),
+              color: categoryColor,
+            };
           }
-        })
-      );
+          categoryTotals[categoryName].total =
+            categoryTotals[categoryName].total.add(convertedAmount);
+        } else if (transaction.type === 'income') {
+          totalInc = totalInc.add(convertedAmount);
+        }
+      });
 
-      setExpensesByCategory(Object.values(categoryTotals));
-      setTotalExpenses(totalExp);
-      setTotalIncome(totalInc);
+      setExpensesByCategory(
+        Object.entries(categoryTotals).map(([category, { total, color }]) => ({
+          category,
+          total: total.toMajor(),
+          color,
+        }))
+      );
+      setTotalExpenses(totalExp.toMajor());
+      setTotalIncome(totalInc.toMajor());
+      setRatesAsOf(asOf);
+      setFxEffect(
+        getFxEffect(transactions, conversion, preferredCurrency).toMajor()
+      );
     } catch (error) {
       console.error('Error fetching analytics:', error);
       setError(error instanceof Error ? error.message : 'An error occurred');
@@ -168,6 +165,7 @@ export default function Analytics() {
     >
       <View style={styles.header}>
         <Text style={styles.title}>Analytics</Text>
+        <ConversionModeBar fxEffect={fxEffect} />
       </View>
 
       <View style={styles.content}>
@@ -177,6 +175,11 @@ export default function Analytics() {
             <Text style={[styles.summaryAmount, styles.incomeAmount]}>
               {formatAmount(totalIncome, preferredCurrency)}
             </Text>
+            {formatSecondary(totalIncome) && (
+              <Text style={styles.summarySecondary}>
+                ≈ {formatSecondary(totalIncome)}
+              </Text>
+            )}
           </View>
 
           <View style={[styles.summaryCard, styles.expenseCard]}>
@@ -184,9 +187,20 @@ export default function Analytics() {
             <Text style={[styles.summaryAmount, styles.expenseAmount]}>
               {formatAmount(totalExpenses, preferredCurrency)}
             </Text>
+            {formatSecondary(totalExpenses) && (
+              <Text style={styles.summarySecondary}>
+                ≈ {formatSecondary(totalExpenses)}
+              </Text>
+            )}
           </View>
         </View>
 
+        {ratesAsOf && (
+          <Text style={styles.ratesAsOf}>
+            Rates as of {format(ratesAsOf, 'MMM d, yyyy HH:mm')}
+          </Text>
+        )}
+
         {error ? (
           <View style={styles.errorContainer}>
             <Text style={styles.errorText}>Error: {error}</Text>
@@ -289,6 +303,12 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#e5e7eb',
   },
+  ratesAsOf: {
+    fontSize: 12,
+    color: '#64748b',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
   incomeCard: {
     borderLeftWidth: 4,
     borderLeftColor: '#10b981',
@@ -306,6 +326,11 @@ const styles = StyleSheet.create({
     fontSize: 20,
     fontWeight: '600',
   },
+  summarySecondary: {
+    marginTop: 4,
+    fontSize: 13,
+    color: '#64748b',
+  },
   incomeAmount: {
     color: '#10b981',
   },
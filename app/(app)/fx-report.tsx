@@ -0,0 +1,400 @@
+import { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { router } from 'expo-router';
+import { ArrowLeft } from 'lucide-react-native';
+import { format } from 'date-fns';
+import { useCurrency } from '@/lib/CurrencyContext';
+import { getCurrencyInfo } from '@/lib/currencies';
+import { Money } from '@/lib/money';
+import { FxReport as FxReportData, getFxReport } from '@/lib/fxReport';
+import { RATE_PERIODS, RatePeriod } from '@/lib/rateHistory';
+
+export default function FxReport() {
+  const {
+    preferredCurrency,
+    formatAmount,
+    loading: currencyLoading,
+  } = useCurrency();
+
+  const [period, setPeriod] = useState<RatePeriod>('3M');
+  const [report, setReport] = useState<FxReportData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!currencyLoading) loadReport();
+  }, [period, preferredCurrency, currencyLoading]);
+
+  async function loadReport() {
+    try {
+      setLoading(true);
+      setError(null);
+      setReport(await getFxReport(period, preferredCurrency));
+    } catch (error) {
+      console.error('Error loading FX report:', error);
+      setError(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const formatSigned = (amount: Money) =>
+    (amount.isNegative() || amount.isZero() ? '' : '+') +
+    formatAmount(amount.toMajor(), amount.currency);
+
+  const signStyle = (amount: Money) =>
+    amount.isZero()
+      ? null
+      : amount.isNegative()
+      ? styles.negative
+      : styles.positive;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={styles.backButton}
+        >
+          <ArrowLeft size={24} color="#0f172a" />
+        </TouchableOpacity>
+        <Text style={styles.title}>FX Gain/Loss</Text>
+      </View>
+
+      <ScrollView style={styles.content}>
+        <View style={styles.periodRow}>
+          {RATE_PERIODS.map((option) => (
+            <TouchableOpacity
+              key={option.value}
+              style={[
+                styles.chip,
+                period === option.value && styles.chipActive,
+              ]}
+              onPress={() => setPeriod(option.value)}
+            >
+              <Text
+                style={[
+                  styles.chipText,
+                  period === option.value && styles.chipTextActive,
+                ]}
+              >
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {loading || currencyLoading ? (
+          <ActivityIndicator
+            size="large"
+            color="#0891b2"
+            style={styles.loadingIndicator}
+          />
+        ) : error ? (
+          <Text style={styles.errorText}>{error}</Text>
+        ) : !report || report.currencies.length === 0 ? (
+          <Text style={styles.emptyText}>
+            No holdings to report on in this period.
+          </Text>
+        ) : (
+          <>
+            <Text style={styles.periodText}>
+              {format(new Date(report.startDate), 'MMM d, yyyy')} –{' '}
+              {format(new Date(report.endDate), 'MMM d, yyyy')}
+            </Text>
+            {report.asOf && (
+              <Text style={styles.ratesAsOf}>
+                Rates as of {format(report.asOf, 'MMM d, yyyy HH:mm')}
+              </Text>
+            )}
+
+            <View style={styles.summaryCard}>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Opening net position</Text>
+                <Text style={styles.summaryValue}>
+                  {formatAmount(
+                    report.total.openingValue.toMajor(),
+                    preferredCurrency
+                  )}
+                </Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Cash flow</Text>
+                <Text
+                  style={[
+                    styles.summaryValue,
+                    signStyle(report.total.cashFlow),
+                  ]}
+                >
+                  {formatSigned(report.total.cashFlow)}
+                </Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Revaluation</Text>
+                <Text
+                  style={[
+                    styles.summaryValue,
+                    signStyle(report.total.revaluation),
+                  ]}
+                >
+                  {formatSigned(report.total.revaluation)}
+                </Text>
+              </View>
+              <View style={[styles.summaryRow, styles.summaryTotal]}>
+                <Text style={styles.summaryTotalLabel}>
+                  Closing net position
+                </Text>
+                <Text style={styles.summaryTotalValue}>
+                  {formatAmount(
+                    report.total.closingValue.toMajor(),
+                    preferredCurrency
+                  )}
+                </Text>
+              </View>
+            </View>
+            <Text style={styles.description}>
+              Cash flow is income, expenses and exchanges at the rate on their
+              date. Revaluation is the unrealized gain or loss on holdings from
+              rates moving.
+            </Text>
+
+            <Text style={styles.sectionTitle}>By Currency</Text>
+            {report.currencies.map((effect) => {
+              const info = getCurrencyInfo(effect.currency);
+              return (
+                <View key={effect.currency} style={styles.currencyItem}>
+                  <View style={styles.currencyHeader}>
+                    <Text style={styles.currencyCode}>
+                      {info.flag} {effect.currency}
+                    </Text>
+                    <Text style={styles.currencyBalance}>
+                      {formatAmount(
+                        effect.openingBalance.toMajor(),
+                        effect.currency
+                      )}{' '}
+                      →{' '}
+                      {formatAmount(
+                        effect.closingBalance.toMajor(),
+                        effect.currency
+                      )}
+                    </Text>
+                  </View>
+                  <View style={styles.effectRow}>
+                    <Text style={styles.effectLabel}>Value</Text>
+                    <Text style={styles.effectValue}>
+                      {formatAmount(
+                        effect.openingValue.toMajor(),
+                        preferredCurrency
+                      )}{' '}
+                      →{' '}
+                      {formatAmount(
+                        effect.closingValue.toMajor(),
+                        preferredCurrency
+                      )}
+                    </Text>
+                  </View>
+                  <View style={styles.effectRow}>
+                    <Text style={styles.effectLabel}>Cash flow</Text>
+                    <Text
+                      style={[styles.effectValue, signStyle(effect.cashFlow)]}
+                    >
+                      {formatSigned(effect.cashFlow)}
+                    </Text>
+                  </View>
+                  <View style={styles.effectRow}>
+                    <Text style={styles.effectLabel}>Revaluation</Text>
+                    <Text
+                      style={[
+                        styles.effectValue,
+                        signStyle(effect.revaluation),
+                      ]}
+                    >
+                      {formatSigned(effect.revaluation)}
+                    </Text>
+                  </View>
+                </View>
+              );
+            })}
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  loadingIndicator: {
+    marginTop: 40,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#0f172a',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  periodRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipActive: {
+    backgroundColor: '#0891b2',
+    borderColor: '#0891b2',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#0f172a',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  periodText: {
+    fontSize: 14,
+    color: '#64748b',
+    marginBottom: 8,
+  },
+  ratesAsOf: {
+    fontSize: 12,
+    color: '#64748b',
+    marginBottom: 8,
+  },
+  summaryCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    marginBottom: 8,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  summaryValue: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#0f172a',
+  },
+  summaryTotal: {
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+    marginTop: 6,
+    paddingTop: 12,
+  },
+  summaryTotalLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#0f172a',
+  },
+  summaryTotalValue: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#0f172a',
+  },
+  description: {
+    fontSize: 13,
+    color: '#64748b',
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#0f172a',
+    marginBottom: 12,
+  },
+  currencyItem: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  currencyHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  currencyCode: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#0f172a',
+  },
+  currencyBalance: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  effectRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  effectLabel: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  effectValue: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#0f172a',
+  },
+  positive: {
+    color: '#10b981',
+  },
+  negative: {
+    color: '#ef4444',
+  },
+  errorText: {
+    color: '#dc2626',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#64748b',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+});
@@ -9,93 +9,105 @@ import {
   TouchableOpacity,
   Dimensions,
 } from 'react-native';
-import { supabase } from '@/lib/supabase';
+import { Transaction } from '@/lib/data';
+import { useStore } from '@/lib/StoreContext';
 import { useCurrency } from '@/lib/CurrencyContext';
-import { Currency, formatAmount } from '@/lib/currency';
-import { ArrowUpRight, ArrowDownRight } from 'lucide-react-native';
+import { Money } from '@/lib/money';
+import { getFxEffect } from '@/lib/reportConversion';
+import { ConversionModeBar } from '@/lib/ConversionModeBar';
+import { SwapCurrenciesButton } from '@/lib/SwapCurrenciesButton';
+import { PendingSyncBadge } from '@/lib/PendingSyncBadge';
+import {
+  ArrowUpRight,
+  ArrowDownRight,
+  ChevronRight,
+} from 'lucide-react-native';
 import { LineChart } from 'react-native-chart-kit';
-import { router, useFocusEffect } from 'expo-router';
+import { router } from 'expo-router';
+import { format } from 'date-fns';
 
 type Summary = {
+  // Set when conversions fell back to stale cached rates
+  ratesAsOf: Date | null;
+  // Change in the balance when converting at today's rate instead
+  fxEffect: number;
   totalIncome: number;
   totalExpense: number;
   balance: number;
-  recentTransactions: Array<{
-    id: string;
-    amount: number;
-    currency: Currency;
-    type: 'income' | 'expense';
-    description: string;
-    date: string;
-    convertedAmount?: number;
-  }>;
+  recentTransactions: Array<Transaction & { convertedAmount?: number }>;
 };
 
 export default function Home() {
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [summary, setSummary] = useState<Summary>({
+    ratesAsOf: null,
+    fxEffect: 0,
     totalIncome: 0,
     totalExpense: 0,
     balance: 0,
     recentTransactions: [],
   });
 
-  const { preferredCurrency, convertToPreferred } = useCurrency();
+  const {
+    preferredCurrency,
+    useLockedRates,
+    conversionMode,
+    convertReport,
+    formatAmount,
+    formatCompact,
+    formatSecondary,
+    formatConverted,
+  } = useCurrency();
 
-  useFocusEffect(
-    React.useCallback(() => {
-      loadData();
-    }, [preferredCurrency])
-  );
+  const { transactions, amounts, loading: storeLoading, refresh } = useStore();
+
+  // Recalculated whenever a transaction changes, here or on another device
+  useEffect(() => {
+    if (!storeLoading) loadData();
+  }, [
+    transactions,
+    amounts,
+    storeLoading,
+    preferredCurrency,
+    useLockedRates,
+    conversionMode,
+  ]);
 
   async function loadData() {
     try {
-      setLoading(true);
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-      if (!user) return;
-
-      // Get all transactions
-      const { data: transactions, error } = await supabase
-        .from('transactions')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('date', { ascending: false });
-
-      if (error) throw error;
-
       // Convert amounts and calculate totals
-      let totalIncome = 0;
-      let totalExpense = 0;
+      let totalIncome = Money.zero(preferredCurrency);
+      let totalExpense = Money.zero(preferredCurrency);
 
-      const processedTransactions = await Promise.all(
-        (transactions || []).map(async (transaction) => {
-          const convertedAmount = await convertToPreferred(
-            transaction.amount,
-            transaction.currency,
-            new Date(transaction.date)
-          );
+      // Totals only need the amounts, not every transaction in full
+      const conversion = await convertReport(amounts);
+      const { amounts: convertedAmounts, asOf } = conversion[conversionMode];
+      const convertedById = new Map<string, number>();
 
-          if (transaction.type === 'income') {
-            totalIncome += convertedAmount;
-          } else {
-            totalExpense += convertedAmount;
-          }
+      amounts.forEach((transaction, index) => {
+        const convertedAmount = convertedAmounts[index];
+        const converted = Money.fromMajor(convertedAmount, preferredCurrency);
+        convertedById.set(transaction.id, convertedAmount);
 
-          return {
-            ...transaction,
-            convertedAmount,
-          };
-        })
-      );
+        // Exchanges only move money between currencies
+        if (transaction.type === 'income') {
+          totalIncome = totalIncome.add(converted);
+        } else if (transaction.type === 'expense') {
+          totalExpense = totalExpense.add(converted);
+        }
+      });
 
       setSummary({
-        totalIncome,
-        totalExpense,
-        balance: totalIncome - totalExpense,
-        recentTransactions: processedTransactions.slice(0, 5),
+        ratesAsOf: asOf,
+        fxEffect: getFxEffect(amounts, conversion, preferredCurrency).toMajor(),
+        totalIncome: totalIncome.toMajor(),
+        totalExpense: totalExpense.toMajor(),
+        balance: totalIncome.subtract(totalExpense).toMajor(),
+        recentTransactions: transactions.slice(0, 5).map((transaction) => ({
+          ...transaction,
+          convertedAmount: convertedById.get(transaction.id),
+        })),
       });
     } catch (error) {
       console.error('Error loading data:', error);
@@ -106,7 +118,7 @@ export default function Home() {
 
   const onRefresh = async () => {
     setRefreshing(true);
-    await loadData();
+    await refresh();
     setRefreshing(false);
   };
 
@@ -130,24 +142,29 @@ export default function Home() {
     const dates = summary.recentTransactions
       .slice()
       .reverse()
-      .reduce((acc: { [key: string]: number }, transaction) => {
+      .filter((transaction) => transaction.type !== 'exchange')
+      .reduce((acc: { [key: string]: Money }, transaction) => {
         const date = new Date(transaction.date).toLocaleDateString();
-        const amount = transaction.convertedAmount || 0;
-        acc[date] =
-          (acc[date] || 0) + (transaction.type === 'income' ? amount : -amount);
+        const amount = Money.fromMajor(
+          transaction.convertedAmount || 0,
+          preferredCurrency
+        );
+        acc[date] = (acc[date] || Money.zero(preferredCurrency)).add(
+          transaction.type === 'income' ? amount : amount.negate()
+        );
         return acc;
       }, {});
 
-    let balance = 0;
+    let balance = Money.zero(preferredCurrency);
     const labels: string[] = [];
     const data: number[] = [];
 
     Object.entries(dates).forEach(([date, change]) => {
-      balance += change;
+      balance = balance.add(change);
       // Ensure we don't add any invalid numbers
-      if (isFinite(balance)) {
+      if (isFinite(balance.toMajor())) {
         labels.push(date);
-        data.push(balance);
+        data.push(balance.toMajor());
       }
     });
 
@@ -176,13 +193,34 @@ export default function Home() {
     >
       <View style={styles.header}>
         <Text style={styles.welcomeText}>Welcome back!</Text>
+        <ConversionModeBar fxEffect={summary.fxEffect} />
       </View>
 
       <View style={styles.balanceCard}>
-        <Text style={styles.balanceLabel}>Current Balance</Text>
+        <View style={styles.balanceHeader}>
+          <Text style={styles.balanceLabel}>Current Balance</Text>
+          <SwapCurrenciesButton color="#e0f2fe" />
+        </View>
         <Text style={styles.balanceAmount}>
           {formatAmount(summary.balance, preferredCurrency)}
         </Text>
+        {formatSecondary(summary.balance) && (
+          <Text style={styles.balanceSecondary}>
+            ≈ {formatSecondary(summary.balance)}
+          </Text>
+        )}
+        {summary.ratesAsOf && (
+          <Text style={styles.ratesAsOf}>
+            Rates as of {format(summary.ratesAsOf, 'MMM d, yyyy HH:mm')}
+          </Text>
+        )}
+        <TouchableOpacity
+          style={styles.fxReportLink}
+          onPress={() => router.push('/fx-report')}
+        >
+          <Text style={styles.fxReportLinkText}>FX gain/loss</Text>
+          <ChevronRight size={16} color="#e0f2fe" />
+        </TouchableOpacity>
       </View>
 
       <View style={styles.statsContainer}>
@@ -194,6 +232,11 @@ export default function Home() {
           <Text style={[styles.statAmount, styles.incomeAmount]}>
             {formatAmount(summary.totalIncome, preferredCurrency)}
           </Text>
+          {formatSecondary(summary.totalIncome) && (
+            <Text style={styles.statSecondary}>
+              ≈ {formatSecondary(summary.totalIncome)}
+            </Text>
+          )}
         </View>
 
         <View style={[styles.statCard, styles.expenseCard]}>
@@ -204,6 +247,11 @@ export default function Home() {
           <Text style={[styles.statAmount, styles.expenseAmount]}>
             {formatAmount(summary.totalExpense, preferredCurrency)}
           </Text>
+          {formatSecondary(summary.totalExpense) && (
+            <Text style={styles.statSecondary}>
+              ≈ {formatSecondary(summary.totalExpense)}
+            </Text>
+          )}
         </View>
       </View>
 
@@ -213,9 +261,10 @@ export default function Home() {
           data={chartData}
           width={Dimensions.get('window').width - 40}
           height={220}
-          yAxisLabel={preferredCurrency === 'USD' ? '$' : ''}
-          yAxisSuffix={
-            preferredCurrency !== 'USD' ? ` ${preferredCurrency}` : ''
+          yAxisLabel=""
+          yAxisSuffix=""
+          formatYLabel={(value) =>
+            formatCompact(Number(value), preferredCurrency)
           }
           chartConfig={{
             backgroundColor: '#fff',
@@ -264,6 +313,7 @@ export default function Home() {
                 <Text style={styles.transactionDate}>
                   {new Date(transaction.date).toLocaleDateString()}
                 </Text>
+                <PendingSyncBadge id={transaction.id} />
               </View>
               <View>
                 <Text
@@ -271,19 +321,34 @@ export default function Home() {
                     styles.transactionAmount,
                     transaction.type === 'expense'
                       ? styles.expenseAmount
+                      : transaction.type === 'exchange'
+                      ? styles.exchangeAmount
                       : styles.incomeAmount,
                   ]}
                 >
                   {formatAmount(transaction.amount, transaction.currency)}
                 </Text>
-                {transaction.currency !== preferredCurrency && (
+                {transaction.type === 'exchange' ? (
                   <Text style={styles.convertedAmount}>
-                    ≈{' '}
+                    →{' '}
                     {formatAmount(
-                      transaction.convertedAmount!,
-                      preferredCurrency
+                      transaction.destination_amount!,
+                      transaction.destination_currency!
                     )}
                   </Text>
+                ) : (
+                  formatConverted(
+                    transaction.convertedAmount!,
+                    transaction.currency
+                  ) && (
+                    <Text style={styles.convertedAmount}>
+                      ≈{' '}
+                      {formatConverted(
+                        transaction.convertedAmount!,
+                        transaction.currency
+                      )}
+                    </Text>
+                  )
                 )}
               </View>
             </TouchableOpacity>
@@ -323,16 +388,40 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     alignItems: 'center',
   },
+  balanceHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
   balanceLabel: {
     fontSize: 16,
     color: '#e0f2fe',
-    marginBottom: 8,
   },
   balanceAmount: {
     fontSize: 32,
     fontWeight: 'bold',
     color: '#fff',
   },
+  balanceSecondary: {
+    marginTop: 4,
+    fontSize: 16,
+    color: '#e0f2fe',
+  },
+  ratesAsOf: {
+    marginTop: 8,
+    fontSize: 12,
+    color: '#e0f2fe',
+  },
+  fxReportLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  fxReportLinkText: {
+    fontSize: 14,
+    color: '#e0f2fe',
+    marginRight: 2,
+  },
   statsContainer: {
     flexDirection: 'row',
     padding: 20,
@@ -368,12 +457,20 @@ const styles = StyleSheet.create({
     fontSize: 20,
     fontWeight: '600',
   },
+  statSecondary: {
+    marginTop: 4,
+    fontSize: 13,
+    color: '#64748b',
+  },
   incomeAmount: {
     color: '#10b981',
   },
   expenseAmount: {
     color: '#ef4444',
   },
+  exchangeAmount: {
+    color: '#0f172a',
+  },
   chartCard: {
     margin: 20,
     padding: 20,
@@ -1,162 +1,109 @@
-import { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   StyleSheet,
   View,
   Text,
+  TextInput,
   FlatList,
   TouchableOpacity,
   ActivityIndicator,
   RefreshControl,
   Alert,
 } from 'react-native';
-import { supabase } from '@/lib/supabase';
 import { format } from 'date-fns';
-import { useFocusEffect } from '@react-navigation/native';
-import React from 'react';
-import { Currency, convertAmount, formatAmount } from '@/lib/currency';
-import { useRouter } from 'expo-router';
-
-type Transaction = {
-  id: string;
-  amount: number;
-  currency: Currency;
-  description: string;
-  type: 'income' | 'expense';
-  date: string;
-  category: {
-    name: string;
-    color: string;
-  } | null;
-  convertedAmount?: number;
-};
-
-export default function Transactions() {
-  const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [preferredCurrency, setPreferredCurrency] = useState<Currency>('USD');
-  const router = useRouter();
+import { Search, SlidersHorizontal, X } from 'lucide-react-native';
+import {
+  SavedView,
+  Transaction,
+  TransactionAmount,
+  TransactionCursor,
+  TransactionFilters,
+  listTransactionAmounts,
+  listTransactions,
+  listTransactionsPage,
+  listSortedTransactionsPage,
+  parseTransactionSort,
+  toTransactionAmount,
+} from '@/lib/data';
+import { useStore } from '@/lib/StoreContext';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useCurrency } from '@/lib/CurrencyContext';
+import { netTotal } from '@/lib/reportConversion';
+import { ConversionModeBar } from '@/lib/ConversionModeBar';
+import { PendingSyncBadge } from '@/lib/PendingSyncBadge';
+import { TransactionFilterSheet } from '@/lib/TransactionFilterSheet';
+import { SavedViewBar } from '@/lib/SavedViewBar';
+import {
+  TransactionFilterParams,
+  hasFilters,
+  parseFilterParams,
+  toFilterParams,
+} from '@/lib/transactionFilters';
 
-  // Use useFocusEffect to reload transactions when the screen comes into focus
-  useFocusEffect(
-    React.useCallback(() => {
-      loadTransactions();
-    }, [])
-  );
+// Filtered or sorted results, loaded from the server a page at a time
+// like the store's. Lists sorted by converted amount are loaded whole, as
+// only the app can convert them.
+type FilteredList = {
+  transactions: Transaction[];
+  // Where the next page starts: a cursor by date, an offset in other
+  // orders. Null once every page is loaded.
+  next: TransactionCursor | number | null;
+  amounts: TransactionAmount[];
+};
 
-  async function loadTransactions() {
-    try {
-      setLoading(true);
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-      if (!user) throw new Error('User not authenticated');
-
-      // Get user's preferred currency
-      const { data: userData, error: userError } = await supabase
-        .from('users')
-        .select('currency_preference')
-        .eq('id', user.id)
-        .single();
-
-      if (userError) throw userError;
-
-      const userCurrency = (userData?.currency_preference || 'USD') as Currency;
-      setPreferredCurrency(userCurrency);
-
-      // Get transactions
-      const { data, error } = await supabase
-        .from('transactions')
-        .select(
-          `
-          id,
-          amount,
-          currency,
-          description,
-          type,
-          date,
-          category:categories (
-            name,
-            color
-          )
-        `
-        )
-        .eq('user_id', user.id)
-        .order('date', { ascending: false });
-
-      if (error) throw error;
-
-      // Convert amounts to preferred currency
-      const convertedTransactions = await Promise.all(
-        (data || []).map(async (transaction: any) => {
-          const processedTransaction: Transaction = {
-            id: transaction.id,
-            amount: transaction.amount,
-            currency: transaction.currency,
-            description: transaction.description,
-            type: transaction.type,
-            date: transaction.date,
-            category: transaction.category
-              ? {
-                  name: String(transaction.category.name),
-                  color: String(transaction.category.color),
-                }
-              : null,
-          };
-
-          if (transaction.currency !== userCurrency) {
-            try {
-              const convertedAmount = await convertAmount(
-                transaction.amount,
-                transaction.currency,
-                userCurrency,
-                new Date(transaction.date)
-              );
-              return { ...processedTransaction, convertedAmount };
-            } catch (error) {
-              console.error('Error converting amount:', error);
-              return processedTransaction;
-            }
-          }
-          return {
-            ...processedTransaction,
-            convertedAmount: transaction.amount,
-          };
-        })
-      );
+// Everything a row's converted amount depends on, so edited rows are
+// converted again
+function conversionKey(transaction: Transaction) {
+  return [
+    transaction.id,
+    transaction.date,
+    transaction.amount,
+    transaction.currency,
+    transaction.base_currency,
+    transaction.converted_amount,
+  ].join('|');
+}
 
-      setTransactions(convertedTransactions);
-    } catch (error) {
-      console.error('Error loading transactions:', error);
-      Alert.alert('Error', 'Failed to load transactions');
-    } finally {
-      setLoading(false);
-    }
-  }
+// Shared while filtered results load, so the list doesn't change each
+// render
+const NO_TRANSACTIONS: Transaction[] = [];
 
-  const onRefresh = async () => {
-    setRefreshing(true);
-    await loadTransactions();
-    setRefreshing(false);
-  };
+// Stable, so ties stay newest first
+function sortByConvertedAmount(
+  transactions: Transaction[],
+  convertedAmounts: number[]
+): Transaction[] {
+  return transactions
+    .map((transaction, index) => ({
+      transaction,
+      convertedAmount: convertedAmounts[index],
+    }))
+    .sort((a, b) => b.convertedAmount - a.convertedAmount)
+    .map((row) => row.transaction);
+}
 
-  if (loading) {
-    return (
-      <View style={styles.loadingContainer}>
-        <ActivityIndicator size="large" color="#0891b2" />
-      </View>
-    );
-  }
+const TransactionRow = React.memo(function TransactionRow({
+  item,
+  convertedAmount,
+}: {
+  item: Transaction;
+  convertedAmount: number | undefined;
+}) {
+  const router = useRouter();
+  const { formatAmount, formatConverted } = useCurrency();
 
-  const renderTransaction = ({ item }: { item: Transaction }) => (
+  return (
     <TouchableOpacity
       style={styles.transactionItem}
       onPress={() => router.push(`/transaction/${item.id}`)}
     >
       <View style={styles.transactionHeader}>
-        <Text style={styles.transactionDate}>
-          {format(new Date(item.date), 'MMM d, yyyy')}
-        </Text>
+        <View style={styles.transactionDateRow}>
+          <Text style={styles.transactionDate}>
+            {format(new Date(item.date), 'MMM d, yyyy')}
+          </Text>
+          <PendingSyncBadge id={item.id} />
+        </View>
         {item.category && (
           <View
             style={[
@@ -178,25 +125,373 @@ export default function Transactions() {
               styles.transactionAmount,
               item.type === 'expense'
                 ? styles.expenseAmount
+                : item.type === 'exchange'
+                ? styles.exchangeAmount
                 : styles.incomeAmount,
             ]}
           >
             {formatAmount(item.amount, item.currency)}
           </Text>
-          {item.currency !== preferredCurrency && item.convertedAmount && (
+          {item.type === 'exchange' ? (
             <Text style={styles.convertedAmount}>
-              ≈ {formatAmount(item.convertedAmount, preferredCurrency)}
+              →{' '}
+              {formatAmount(
+                item.destination_amount!,
+                item.destination_currency!
+              )}
             </Text>
+          ) : (
+            convertedAmount !== undefined &&
+            formatConverted(convertedAmount, item.currency) && (
+              <Text style={styles.convertedAmount}>
+                ≈ {formatConverted(convertedAmount, item.currency)}
+              </Text>
+            )
           )}
         </View>
       </View>
     </TouchableOpacity>
   );
+});
+
+export default function Transactions() {
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  // Converted amounts by conversionKey
+  const [convertedAmounts, setConvertedAmounts] = useState<Map<string, number>>(
+    new Map()
+  );
+  const [ratesAsOf, setRatesAsOf] = useState<Date | null>(null);
+  const [filtered, setFiltered] = useState<FilteredList | null>(null);
+  const [filteredTotal, setFilteredTotal] = useState<number | null>(null);
+  const [loadingMoreFiltered, setLoadingMoreFiltered] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  const router = useRouter();
+  const {
+    preferredCurrency,
+    useLockedRates,
+    conversionMode,
+    convertReport,
+    formatAmount,
+  } = useCurrency();
+
+  const store = useStore();
+
+  // Filters live in the route, so filtered lists can be linked to
+  const params = useLocalSearchParams<
+    TransactionFilterParams & { sort?: string }
+  >();
+  const filters = parseFilterParams(params);
+  const sort = parseTransactionSort(params.sort);
+  const filterKey = JSON.stringify({ ...toFilterParams(filters), sort });
+  // Filtered and sorted lists come from the server instead of the store
+  const filtering = hasFilters(filters) || sort !== 'date';
+  const [searchText, setSearchText] = useState(filters.search ?? '');
+  // Bumped by every filtered load, so older ones are dropped
+  const filterRequest = useRef(0);
+  const loadingFilteredPage = useRef<TransactionCursor | number | null>(null);
+  const totalRequest = useRef(0);
+
+  const transactions = filtering
+    ? filtered?.transactions ?? NO_TRANSACTIONS
+    : store.transactions;
+
+  // Conversions so far, dropped when the settings they were made with
+  // change
+  const conversionSettings = `${preferredCurrency}|${useLockedRates}|${conversionMode}`;
+  const conversions = useRef({
+    settings: conversionSettings,
+    amounts: new Map<string, number>(),
+  });
+
+  // Only rows not converted yet are, as pages load or rows change here or
+  // on another device
+  useEffect(() => {
+    if (!store.loading) convertNewTransactions();
+  }, [transactions, store.loading, conversionSettings]);
+
+  // Filtered results are reloaded when the filters change, and when any
+  // transaction does. Converted amount order also changes with the
+  // conversion settings.
+  const orderSettings = sort === 'converted_amount' ? conversionSettings : '';
+  useEffect(() => {
+    if (filtering) {
+      loadFiltered();
+    } else {
+      filterRequest.current++;
+      setFiltered(null);
+    }
+  }, [filterKey, store.amounts, orderSettings]);
+
+  useEffect(() => {
+    if (filtered) {
+      loadFilteredTotal(filtered.amounts);
+    } else {
+      totalRequest.current++;
+      setFilteredTotal(null);
+    }
+  }, [filtered?.amounts, conversionSettings]);
+
+  // Links can change the search too
+  useEffect(() => {
+    if ((params.q ?? '') !== searchText.trim()) setSearchText(params.q ?? '');
+  }, [params.q]);
+
+  // Searched once typing pauses
+  useEffect(() => {
+    const search = searchText.trim();
+    if (search === (filters.search ?? '')) return;
+
+    const timeout = setTimeout(() => router.setParams({ q: search }), 300);
+    return () => clearTimeout(timeout);
+  }, [searchText]);
+
+  async function convertNewTransactions() {
+    const reset = conversions.current.settings !== conversionSettings;
+    if (reset) {
+      conversions.current = {
+        settings: conversionSettings,
+        amounts: new Map(),
+      };
+    }
+    const { settings, amounts } = conversions.current;
+    const unconverted = transactions.filter(
+      (transaction) => !amounts.has(conversionKey(transaction))
+    );
+    // Nothing new to show, and setting state anyway would render again
+    if (unconverted.length === 0 && !reset) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      if (unconverted.length > 0) {
+        const conversion = await convertReport(unconverted);
+        const batch = conversion[conversionMode];
+        unconverted.forEach((transaction, index) => {
+          amounts.set(conversionKey(transaction), batch.amounts[index]);
+        });
+        if (conversions.current.settings === settings) {
+          setRatesAsOf(batch.asOf);
+        }
+      }
+    } catch (error) {
+      console.error('Error converting amounts:', error);
+    } finally {
+      if (conversions.current.settings === settings) {
+        setConvertedAmounts(new Map(amounts));
+      }
+      setLoading(false);
+    }
+  }
+
+  // The page after `next` in the list's order
+  function loadFilteredPage(next: TransactionCursor | number | null) {
+    if (sort === 'amount' || sort === 'category') {
+      return listSortedTransactionsPage(
+        sort,
+        typeof next === 'number' ? next : 0,
+        filters
+      ).then((page) => ({
+        transactions: page.transactions,
+        next: page.nextOffset,
+      }));
+    }
+    return listTransactionsPage(
+      typeof next === 'number' ? null : next,
+      filters
+    ).then((page) => ({
+      transactions: page.transactions,
+      next: page.nextCursor,
+    }));
+  }
+
+  async function loadFiltered() {
+    if (sort === 'converted_amount') return loadByConvertedAmount();
+
+    const request = ++filterRequest.current;
+    try {
+      const [firstPage, amounts] = await Promise.all([
+        loadFilteredPage(null),
+        listTransactionAmounts(filters),
+      ]);
+      if (filterRequest.current !== request) return;
+
+      setFiltered({ ...firstPage, amounts });
+    } catch (error) {
+      console.error('Error filtering transactions:', error);
+      Alert.alert('Error', 'Failed to load transactions');
+    }
+  }
+
+  async function loadByConvertedAmount() {
+    const request = ++filterRequest.current;
+    try {
+      const loaded = await listTransactions(filters);
+      const converted = (await convertReport(loaded))[conversionMode].amounts;
+      if (filterRequest.current !== request) return;
+
+      setFiltered({
+        transactions: sortByConvertedAmount(loaded, converted),
+        next: null,
+        amounts: loaded.map(toTransactionAmount),
+      });
+    } catch (error) {
+      console.error('Error filtering transactions:', error);
+      Alert.alert('Error', 'Failed to load transactions');
+    }
+  }
+
+  async function loadMoreFiltered() {
+    const request = filterRequest.current;
+    const from = filtered?.next ?? null;
+    if (from === null || loadingFilteredPage.current === from) return;
+
+    loadingFilteredPage.current = from;
+    setLoadingMoreFiltered(true);
+    try {
+      const page = await loadFilteredPage(from);
+      if (filterRequest.current !== request) return;
+
+      setFiltered(
+        (current) =>
+          current && {
+            ...current,
+            transactions: [...current.transactions, ...page.transactions],
+            next: page.next,
+          }
+      );
+    } catch (error) {
+      console.error('Error loading more transactions:', error);
+    } finally {
+      loadingFilteredPage.current = null;
+      setLoadingMoreFiltered(false);
+    }
+  }
+
+  async function loadFilteredTotal(amounts: TransactionAmount[]) {
+    const request = ++totalRequest.current;
+    try {
+      const conversion = await convertReport(amounts);
+      if (totalRequest.current !== request) return;
+
+      setFilteredTotal(
+        netTotal(
+          amounts,
+          conversion[conversionMode].amounts,
+          preferredCurrency
+        ).toMajor()
+      );
+    } catch (error) {
+      console.error('Error converting amounts:', error);
+    }
+  }
+
+  function applyFilters(next: TransactionFilters) {
+    setShowFilters(false);
+    router.setParams(toFilterParams({ ...next, search: filters.search }));
+  }
+
+  function clearFilters() {
+    setSearchText('');
+    router.setParams({ ...toFilterParams({}), sort: '' });
+  }
+
+  function selectView(view: SavedView | null) {
+    if (!view) return clearFilters();
+
+    const viewFilters = parseFilterParams(view.filters);
+    setSearchText(viewFilters.search ?? '');
+    router.setParams({ ...toFilterParams(viewFilters), sort: view.sort });
+  }
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await (filtering ? loadFiltered() : store.refresh());
+    setRefreshing(false);
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#0891b2" />
+      </View>
+    );
+  }
+
+  const renderTransaction = ({ item }: { item: Transaction }) => (
+    <TransactionRow
+      item={item}
+      convertedAmount={convertedAmounts.get(conversionKey(item))}
+    />
+  );
+
+  const count = filtering ? filtered?.amounts.length ?? 0 : store.totalCount;
+  const hasMore = filtering
+    ? filtered !== null && filtered.next !== null
+    : store.hasMore;
+  const loadingMore = filtering ? loadingMoreFiltered : store.loadingMore;
+  const activeFilters = Object.values(
+    toFilterParams({ ...filters, search: undefined })
+  ).filter(Boolean).length;
 
   return (
     <View style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.title}>Transactions</Text>
+        <Text style={styles.totalCount}>
+          {count} {count === 1 ? 'transaction' : 'transactions'}
+          {filtering &&
+            filteredTotal !== null &&
+            ` · Net ${formatAmount(filteredTotal, preferredCurrency)}`}
+        </Text>
+
+        <View style={styles.searchRow}>
+          <View style={styles.searchBar}>
+            <Search size={18} color="#64748b" />
+            <TextInput
+              style={styles.searchInput}
+              placeholder="Search descriptions"
+              value={searchText}
+              onChangeText={setSearchText}
+              placeholderTextColor="#94a3b8"
+              returnKeyType="search"
+            />
+            {searchText !== '' && (
+              <TouchableOpacity onPress={() => setSearchText('')}>
+                <X size={18} color="#64748b" />
+              </TouchableOpacity>
+            )}
+          </View>
+          <TouchableOpacity
+            style={[
+              styles.filterButton,
+              activeFilters > 0 && styles.filterButtonActive,
+            ]}
+            onPress={() => setShowFilters(true)}
+          >
+            <SlidersHorizontal
+              size={18}
+              color={activeFilters > 0 ? '#fff' : '#0f172a'}
+            />
+            {activeFilters > 0 && (
+              <Text style={styles.filterCount}>{activeFilters}</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+        {filtering && (
+          <TouchableOpacity onPress={clearFilters}>
+            <Text style={styles.clearFilters}>Clear filters</Text>
+          </TouchableOpacity>
+        )}
+        <SavedViewBar filters={filters} sort={sort} onSelect={selectView} />
+
+        <ConversionModeBar />
+        {ratesAsOf && (
+          <Text style={styles.ratesAsOf}>
+            Rates as of {format(ratesAsOf, 'MMM d, yyyy HH:mm')}
+          </Text>
+        )}
       </View>
 
       <FlatList
@@ -204,18 +499,48 @@ export default function Transactions() {
         renderItem={renderTransaction}
         keyExtractor={(item) => item.id}
         contentContainerStyle={styles.list}
+        onEndReached={
+          hasMore ? (filtering ? loadMoreFiltered : store.loadMore) : undefined
+        }
+        onEndReachedThreshold={0.5}
+        keyboardShouldPersistTaps="handled"
         refreshControl={
           <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
         }
+        ListFooterComponent={
+          loadingMore ? (
+            <ActivityIndicator style={styles.loadingMore} color="#0891b2" />
+          ) : null
+        }
         ListEmptyComponent={
-          <View style={styles.emptyState}>
-            <Text style={styles.emptyStateText}>No transactions yet</Text>
-            <Text style={styles.emptyStateSubtext}>
-              Add your first transaction to get started
-            </Text>
-          </View>
+          filtering && !filtered ? (
+            <ActivityIndicator style={styles.loadingMore} color="#0891b2" />
+          ) : filtering ? (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyStateText}>
+                No matching transactions
+              </Text>
+              <Text style={styles.emptyStateSubtext}>
+                Try a different search or fewer filters
+              </Text>
+            </View>
+          ) : (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyStateText}>No transactions yet</Text>
+              <Text style={styles.emptyStateSubtext}>
+                Add your first transaction to get started
+              </Text>
+            </View>
+          )
         }
       />
+
+      <TransactionFilterSheet
+        visible={showFilters}
+        filters={filters}
+        onApply={applyFilters}
+        onClose={() => setShowFilters(false)}
+      />
     </View>
   );
 }
@@ -242,9 +567,65 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#0f172a',
   },
+  totalCount: {
+    marginTop: 4,
+    fontSize: 14,
+    color: '#64748b',
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  searchBar: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#f1f5f9',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    color: '#0f172a',
+  },
+  filterButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: '#f1f5f9',
+    borderRadius: 8,
+    padding: 10,
+  },
+  filterButtonActive: {
+    backgroundColor: '#0891b2',
+  },
+  filterCount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  clearFilters: {
+    marginTop: 8,
+    fontSize: 14,
+    color: '#0891b2',
+    fontWeight: '500',
+  },
+  ratesAsOf: {
+    marginTop: 4,
+    fontSize: 12,
+    color: '#64748b',
+  },
   list: {
     padding: 20,
   },
+  loadingMore: {
+    paddingVertical: 16,
+  },
   transactionItem: {
     backgroundColor: '#fff',
     borderRadius: 12,
@@ -259,6 +640,11 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 8,
   },
+  transactionDateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
   transactionDate: {
     fontSize: 14,
     color: '#64748b',
@@ -295,6 +681,9 @@ const styles = StyleSheet.create({
   incomeAmount: {
     color: '#10b981',
   },
+  exchangeAmount: {
+    color: '#0f172a',
+  },
   convertedAmount: {
     fontSize: 14,
     color: '#64748b',
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import {
   StyleSheet,
   View,
@@ -9,101 +9,84 @@ import {
   ScrollView,
 } from 'react-native';
 import { Stack, router, useLocalSearchParams } from 'expo-router';
-import { supabase } from '@/lib/supabase';
-import { ArrowLeft, Calendar, Tag, Trash2 } from 'lucide-react-native';
+import { Transaction, getTransaction } from '@/lib/data';
+import {
+  ArrowLeft,
+  ArrowRightLeft,
+  Calendar,
+  Pencil,
+  Repeat,
+  Tag,
+  Trash2,
+} from 'lucide-react-native';
 import { format } from 'date-fns';
-import { Currency, formatAmount } from '@/lib/currency';
+import { lockConversion } from '@/lib/currency';
+import { Money } from '@/lib/money';
+import { summarizeExchange } from '@/lib/exchangeTransactions';
 import { useCurrency } from '@/lib/CurrencyContext';
+import { useStore } from '@/lib/StoreContext';
+import { TransactionForm } from '@/lib/TransactionForm';
+import { SwapCurrenciesButton } from '@/lib/SwapCurrenciesButton';
 
-type RawDatabaseTransaction = {
-  id: string;
-  amount: number;
-  currency: string;
-  description: string;
-  type: string;
-  date: string;
-  category: {
-    name: string;
-    color: string;
-  } | null;
-};
-
-type DatabaseTransaction = {
-  id: string;
-  amount: number;
-  currency: Currency;
-  description: string;
-  type: 'income' | 'expense';
-  date: string;
-  category: {
-    name: string;
-    color: string;
-  } | null;
-};
-
-type Transaction = DatabaseTransaction & {
+type TransactionDetail = Transaction & {
   convertedAmount?: number;
 };
 
 export default function TransactionDetails() {
-  const { id } = useLocalSearchParams();
+  const { id } = useLocalSearchParams<{ id: string }>();
   const [loading, setLoading] = useState(true);
-  const [transaction, setTransaction] = useState<Transaction | null>(null);
-  const { preferredCurrency, convertToPreferred } = useCurrency();
+  const [transaction, setTransaction] = useState<TransactionDetail | null>(
+    null
+  );
+  const [recomputing, setRecomputing] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const {
+    preferredCurrency,
+    convertManyToPreferred,
+    formatAmount,
+    formatRate,
+    formatConverted,
+  } = useCurrency();
 
+  const {
+    transactions,
+    amounts,
+    deletedTransactionIds,
+    loading: storeLoading,
+    updateTransaction,
+    deleteTransaction,
+  } = useStore();
+  // Transactions outside the loaded pages are only in the amounts, which
+  // still change with them
+  const stored = transactions.find((t) => t.id === id);
+  const storedAmount = amounts.find((t) => t.id === id);
+  const deleted = !!id && deletedTransactionIds.has(id);
+  const deleting = useRef(false);
+
+  // Reloaded whenever the transaction changes, here or on another device
   useEffect(() => {
-    loadTransaction();
-  }, [id]);
+    if (!storeLoading) loadTransaction();
+  }, [id, stored, storedAmount, deleted, storeLoading, preferredCurrency]);
 
   async function loadTransaction() {
+    if (!id || deleting.current) return;
+    if (deleted) {
+      // Deleted on another device
+      router.back();
+      return;
+    }
     try {
-      setLoading(true);
-      const { data: rawData, error } = await supabase
-        .from('transactions')
-        .select(
-          `
-          id,
-          amount,
-          currency,
-          description,
-          type,
-          date,
-          category:categories (
-            name,
-            color
-          )
-        `
-        )
-        .eq('id', id)
-        .single();
-
-      if (error) throw error;
-
-      if (rawData) {
-        const raw = rawData as unknown as RawDatabaseTransaction;
-        // Process the raw data into the correct shape
-        const data: DatabaseTransaction = {
-          id: raw.id,
-          amount: Number(raw.amount),
-          currency: raw.currency as Currency,
-          description: String(raw.description),
-          type: raw.type as 'income' | 'expense',
-          date: String(raw.date),
-          category: raw.category,
-        };
+      const data = stored ?? (await getTransaction(id));
 
-        // Convert amount if necessary
-        const convertedAmount = await convertToPreferred(
-          data.amount,
-          data.currency,
-          new Date(data.date)
-        );
+      // Convert amount if necessary, using the locked conversion if any
+      const {
+        amounts: [convertedAmount],
+      } = await convertManyToPreferred([data]);
 
-        setTransaction({
-          ...data,
-          convertedAmount,
-        });
-      }
+      setTransaction({
+        ...data,
+        convertedAmount,
+      });
     } catch (error) {
       console.error('Error loading transaction:', error);
       Alert.alert('Error', 'Failed to load transaction details');
@@ -113,7 +96,28 @@ export default function TransactionDetails() {
     }
   }
 
-  async function handleDelete() {
+  async function handleRecompute() {
+    if (!transaction) return;
+
+    try {
+      setRecomputing(true);
+      const lockedConversion = await lockConversion(
+        Money.fromMajor(transaction.amount, transaction.currency),
+        preferredCurrency,
+        new Date(transaction.date)
+      );
+
+      updateTransaction(transaction, lockedConversion);
+    } catch (error) {
+      console.error('Error recomputing exchange rate:', error);
+      Alert.alert('Error', 'Failed to recompute exchange rate');
+    } finally {
+      setRecomputing(false);
+    }
+  }
+
+  function handleDelete() {
+    if (!transaction) return;
     Alert.alert(
       'Delete Transaction',
       'Are you sure you want to delete this transaction? This action cannot be undone.',
@@ -125,20 +129,10 @@ export default function TransactionDetails() {
         {
           text: 'Delete',
           style: 'destructive',
-          onPress: async () => {
-            try {
-              const { error } = await supabase
-                .from('transactions')
-                .delete()
-                .eq('id', id);
-
-              if (error) throw error;
-
-              router.replace('/transactions');
-            } catch (error) {
-              console.error('Error deleting transaction:', error);
-              Alert.alert('Error', 'Failed to delete transaction');
-            }
+          onPress: () => {
+            deleting.current = true;
+            deleteTransaction(transaction.id);
+            router.replace('/transactions');
           },
         },
       ]
@@ -161,6 +155,42 @@ export default function TransactionDetails() {
     );
   }
 
+  if (editing) {
+    return (
+      <>
+        <Stack.Screen
+          options={{
+            headerShown: false,
+            presentation: 'modal',
+          }}
+        />
+        <TransactionForm
+          transaction={transaction}
+          onSubmit={(input) => {
+            updateTransaction(transaction, input);
+            setEditing(false);
+          }}
+          onCancel={() => setEditing(false)}
+        />
+      </>
+    );
+  }
+
+  const exchangeSummary =
+    transaction.type === 'exchange' &&
+    transaction.destination_amount !== null &&
+    transaction.destination_currency
+      ? summarizeExchange(
+          Money.fromMajor(transaction.amount, transaction.currency),
+          Money.fromMajor(
+            transaction.destination_amount,
+            transaction.destination_currency
+          ),
+          Money.fromMajor(transaction.fee, transaction.currency),
+          transaction.market_rate
+        )
+      : null;
+
   return (
     <>
       <Stack.Screen
@@ -187,17 +217,39 @@ export default function TransactionDetails() {
                 styles.amount,
                 transaction.type === 'expense'
                   ? styles.expenseAmount
+                  : transaction.type === 'exchange'
+                  ? styles.exchangeAmount
                   : styles.incomeAmount,
               ]}
             >
               {formatAmount(transaction.amount, transaction.currency)}
             </Text>
-            {transaction.currency !== preferredCurrency && (
+            {transaction.type === 'exchange' && (
               <Text style={styles.convertedAmount}>
-                ≈{' '}
-                {formatAmount(transaction.convertedAmount!, preferredCurrency)}
+                →{' '}
+                {formatAmount(
+                  transaction.destination_amount!,
+                  transaction.destination_currency!
+                )}
               </Text>
             )}
+            {transaction.type !== 'exchange' &&
+              transaction.convertedAmount !== undefined &&
+              formatConverted(
+                transaction.convertedAmount,
+                transaction.currency
+              ) && (
+                <View style={styles.convertedRow}>
+                  <Text style={styles.convertedAmount}>
+                    ≈{' '}
+                    {formatConverted(
+                      transaction.convertedAmount,
+                      transaction.currency
+                    )}
+                  </Text>
+                  <SwapCurrenciesButton />
+                </View>
+              )}
           </View>
 
           <View style={styles.detailsCard}>
@@ -215,28 +267,109 @@ export default function TransactionDetails() {
 
             <View style={styles.divider} />
 
-            <View style={styles.detailRow}>
-              <View style={styles.detailIcon}>
-                <Tag size={20} color="#64748b" />
-              </View>
-              <View style={styles.detailContent}>
-                <Text style={styles.detailLabel}>Category</Text>
-                <View style={styles.categoryContainer}>
-                  {transaction.category && (
-                    <View
-                      style={[
-                        styles.categoryTag,
-                        { backgroundColor: transaction.category.color + '80' },
-                      ]}
-                    >
-                      <Text style={styles.categoryText}>
-                        {transaction.category.name}
+            {exchangeSummary && (
+              <View style={styles.detailRow}>
+                <View style={styles.detailIcon}>
+                  <ArrowRightLeft size={20} color="#64748b" />
+                </View>
+                <View style={styles.detailContent}>
+                  <Text style={styles.detailLabel}>Effective Rate</Text>
+                  <Text style={styles.detailValue}>
+                    1 {transaction.currency} ={' '}
+                    {formatRate(exchangeSummary.effectiveRate)}{' '}
+                    {transaction.destination_currency}
+                  </Text>
+                  {transaction.fee > 0 && (
+                    <Text style={styles.detailSubValue}>
+                      Including a{' '}
+                      {formatAmount(transaction.fee, transaction.currency)} fee
+                      ({formatRate(exchangeSummary.quotedRate)} before the fee)
+                    </Text>
+                  )}
+                  {exchangeSummary.marketRate !== null &&
+                    exchangeSummary.spread !== null && (
+                      <Text style={styles.detailSubValue}>
+                        Market rate {formatRate(exchangeSummary.marketRate)} (
+                        {exchangeSummary.spread > 0 ? '+' : ''}
+                        {formatRate(Number(exchangeSummary.spread.toFixed(2)))}
+                        %)
                       </Text>
-                    </View>
+                    )}
+                  {exchangeSummary.cost && (
+                    <Text style={styles.detailSubValue}>
+                      {exchangeSummary.cost.isNegative()
+                        ? 'Gained vs market rate: '
+                        : 'Cost vs market rate: '}
+                      {formatAmount(
+                        Math.abs(exchangeSummary.cost.toMajor()),
+                        transaction.currency
+                      )}
+                    </Text>
                   )}
                 </View>
               </View>
-            </View>
+            )}
+
+            {transaction.type !== 'exchange' && (
+              <View style={styles.detailRow}>
+                <View style={styles.detailIcon}>
+                  <Tag size={20} color="#64748b" />
+                </View>
+                <View style={styles.detailContent}>
+                  <Text style={styles.detailLabel}>Category</Text>
+                  <View style={styles.categoryContainer}>
+                    {transaction.category && (
+                      <View
+                        style={[
+                          styles.categoryTag,
+                          {
+                            backgroundColor: transaction.category.color + '80',
+                          },
+                        ]}
+                      >
+                        <Text style={styles.categoryText}>
+                          {transaction.category.name}
+                        </Text>
+                      </View>
+                    )}
+                  </View>
+                </View>
+              </View>
+            )}
+
+            {transaction.base_currency &&
+              transaction.base_currency !== transaction.currency && (
+                <>
+                  <View style={styles.divider} />
+
+                  <View style={styles.detailRow}>
+                    <View style={styles.detailIcon}>
+                      <Repeat size={20} color="#64748b" />
+                    </View>
+                    <View style={styles.detailContent}>
+                      <Text style={styles.detailLabel}>
+                        {transaction.rate_overridden
+                          ? 'Exchange Rate (manual)'
+                          : 'Exchange Rate'}
+                      </Text>
+                      <Text style={styles.detailValue}>
+                        1 {transaction.currency} ={' '}
+                        {formatRate(transaction.exchange_rate!)}{' '}
+                        {transaction.base_currency}
+                      </Text>
+                      {transaction.converted_amount !== null && (
+                        <Text style={styles.detailSubValue}>
+                          Locked at{' '}
+                          {formatAmount(
+                            transaction.converted_amount,
+                            transaction.base_currency
+                          )}
+                        </Text>
+                      )}
+                    </View>
+                  </View>
+                </>
+              )}
 
             <View style={styles.divider} />
 
@@ -250,6 +383,36 @@ export default function TransactionDetails() {
             </View>
           </View>
 
+          {transaction.currency !== preferredCurrency && (
+            <TouchableOpacity
+              style={[
+                styles.recomputeButton,
+                recomputing && styles.buttonDisabled,
+              ]}
+              onPress={handleRecompute}
+              disabled={recomputing}
+            >
+              {recomputing ? (
+                <ActivityIndicator color="#0891b2" />
+              ) : (
+                <>
+                  <Repeat size={20} color="#0891b2" />
+                  <Text style={styles.recomputeButtonText}>
+                    Recompute at Market Rate
+                  </Text>
+                </>
+              )}
+            </TouchableOpacity>
+          )}
+
+          <TouchableOpacity
+            style={styles.editButton}
+            onPress={() => setEditing(true)}
+          >
+            <Pencil size={20} color="#fff" />
+            <Text style={styles.editButtonText}>Edit Transaction</Text>
+          </TouchableOpacity>
+
           <TouchableOpacity style={styles.deleteButton} onPress={handleDelete}>
             <Trash2 size={20} color="#fff" />
             <Text style={styles.deleteButtonText}>Delete Transaction</Text>
@@ -307,9 +470,16 @@ const styles = StyleSheet.create({
   expenseAmount: {
     color: '#ef4444',
   },
+  exchangeAmount: {
+    color: '#0f172a',
+  },
   incomeAmount: {
     color: '#10b981',
   },
+  convertedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   convertedAmount: {
     fontSize: 18,
     color: '#64748b',
@@ -369,6 +539,45 @@ const styles = StyleSheet.create({
     color: '#fff',
     fontWeight: '500',
   },
+  detailSubValue: {
+    fontSize: 14,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  recomputeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#0891b2',
+    backgroundColor: '#fff',
+  },
+  recomputeButtonText: {
+    color: '#0891b2',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  editButton: {
+    backgroundColor: '#0891b2',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    borderRadius: 12,
+    marginTop: 20,
+  },
+  editButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
   deleteButton: {
     backgroundColor: '#ef4444',
     flexDirection: 'row',
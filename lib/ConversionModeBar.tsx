@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, Alert } from 'react-native';
+import { updateUserSettings } from './data';
+import { useCurrency } from './CurrencyContext';
+import { CONVERSION_MODES, ConversionMode } from './reportConversion';
+
+/**
+ * Switch reports between converting at each transaction's date and at
+ * today's rate, with the difference between the two as the FX effect
+ * when it's given
+ */
+export function ConversionModeBar({ fxEffect = 0 }: { fxEffect?: number }) {
+  const [updating, setUpdating] = useState(false);
+  const { preferredCurrency, conversionMode, setConversionMode, formatAmount } =
+    useCurrency();
+
+  async function updateConversionMode(mode: ConversionMode) {
+    if (mode === conversionMode) return;
+    try {
+      setUpdating(true);
+      await updateUserSettings({ conversionMode: mode });
+
+      setConversionMode(mode);
+    } catch (error) {
+      console.error('Error updating conversion mode:', error);
+      Alert.alert('Error', 'Failed to update conversion mode');
+    } finally {
+      setUpdating(false);
+    }
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.modes}>
+        {CONVERSION_MODES.map(({ mode, label }) => (
+          <TouchableOpacity
+            key={mode}
+            style={[
+              styles.modeButton,
+              conversionMode === mode && styles.modeButtonActive,
+            ]}
+            onPress={() => updateConversionMode(mode)}
+            disabled={updating}
+          >
+            <Text
+              style={[
+                styles.modeText,
+                conversionMode === mode && styles.modeTextActive,
+              ]}
+            >
+              {label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      {fxEffect !== 0 && (
+        <Text style={styles.fxEffect}>
+          FX effect{' '}
+          <Text
+            style={fxEffect > 0 ? styles.fxEffectGain : styles.fxEffectLoss}
+          >
+            {fxEffect > 0 ? '+' : ''}
+            {formatAmount(fxEffect, preferredCurrency)}
+          </Text>{' '}
+          at today's rate vs. transaction dates
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+  },
+  modes: {
+    flexDirection: 'row',
+    backgroundColor: '#f1f5f9',
+    borderRadius: 8,
+    padding: 2,
+  },
+  modeButton: {
+    flex: 1,
+    paddingVertical: 6,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  modeButtonActive: {
+    backgroundColor: '#fff',
+  },
+  modeText: {
+    fontSize: 13,
+    color: '#64748b',
+  },
+  modeTextActive: {
+    color: '#0891b2',
+    fontWeight: '600',
+  },
+  fxEffect: {
+    marginTop: 8,
+    fontSize: 12,
+    color: '#64748b',
+  },
+  fxEffectGain: {
+    color: '#10b981',
+    fontWeight: '600',
+  },
+  fxEffectLoss: {
+    color: '#ef4444',
+    fontWeight: '600',
+  },
+});
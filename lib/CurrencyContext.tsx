@@ -1,15 +1,64 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
-import { supabase } from './supabase';
-import { Currency, convertAmount } from './currency';
+import {
+  Currency,
+  ConversionBatch,
+  ConversionItem,
+  convertAmount,
+  convertMany,
+  getExchangeRate,
+} from './currency';
+import { Money } from './money';
+import {
+  FormatPreferences,
+  formatCompactAmount,
+  formatCurrencyAmount,
+  formatNumber,
+} from './formatting';
+import {
+  ConversionMode,
+  ReportConversion,
+  convertReport as convertReportAmounts,
+} from './reportConversion';
+import { useUserSettings } from './UserSettingsContext';
 
 interface CurrencyContextType {
   preferredCurrency: Currency;
   setPreferredCurrency: (currency: Currency) => void;
+  // Optional second currency amounts are also shown in
+  secondaryCurrency: Currency | null;
+  setSecondaryCurrency: (currency: Currency | null) => void;
+  enabledCurrencies: Currency[];
+  setEnabledCurrencies: (currencies: Currency[]) => void;
+  // Use the conversion locked on each transaction instead of recomputing
+  useLockedRates: boolean;
+  setUseLockedRates: (useLockedRates: boolean) => void;
   convertToPreferred: (
     amount: number,
     fromCurrency: Currency,
     date: Date
   ) => Promise<number>;
+  convertManyToPreferred: (items: ConversionItem[]) => Promise<ConversionBatch>;
+  // Whether reports convert at each transaction's date or at today's rate
+  conversionMode: ConversionMode;
+  setConversionMode: (conversionMode: ConversionMode) => void;
+  convertReport: (items: ConversionItem[]) => Promise<ReportConversion>;
+  formatPreferences: FormatPreferences;
+  setFormatPreferences: (preferences: FormatPreferences) => void;
+  // Formatters bound to the user's locale and numbering system
+  formatAmount: (amount: number, currency: Currency) => string;
+  formatCompact: (amount: number, currency: Currency) => string;
+  formatRate: (rate: number) => string;
+  // An amount in the preferred currency in the secondary currency at
+  // today's rate, or null without a secondary currency or its rate
+  formatSecondary: (amount: number) => string | null;
+  // "primary ≈ secondary" for an amount in the preferred currency
+  formatDual: (amount: number) => string;
+  // The "≈" line under an amount in `fromCurrency`, given it converted into
+  // the preferred currency, or null if there's nothing to add
+  formatConverted: (
+    convertedAmount: number,
+    fromCurrency: Currency
+  ) => string | null;
   loading: boolean;
 }
 
@@ -18,35 +67,32 @@ const CurrencyContext = createContext<CurrencyContextType | undefined>(
 );
 
 export function CurrencyProvider({ children }: { children: React.ReactNode }) {
-  const [preferredCurrency, setPreferredCurrency] = useState<Currency>('USD');
-  const [loading, setLoading] = useState(true);
+  const { settings, updateSettings, loading } = useUserSettings();
+  const {
+    preferredCurrency,
+    secondaryCurrency,
+    enabledCurrencies,
+    useLockedRates,
+    conversionMode,
+    formatPreferences,
+  } = settings;
+  // Today's rate from the preferred to the secondary currency
+  const [secondaryRate, setSecondaryRate] = useState<number | null>(null);
 
   useEffect(() => {
-    loadUserPreference();
-  }, []);
+    loadSecondaryRate();
+  }, [preferredCurrency, secondaryCurrency]);
+
+  async function loadSecondaryRate() {
+    setSecondaryRate(null);
+    if (!secondaryCurrency || secondaryCurrency === preferredCurrency) return;
 
-  async function loadUserPreference() {
     try {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-      if (!user) return;
-
-      const { data, error } = await supabase
-        .from('users')
-        .select('currency_preference')
-        .eq('id', user.id)
-        .single();
-
-      if (error) throw error;
-
-      if (data?.currency_preference) {
-        setPreferredCurrency(data.currency_preference as Currency);
-      }
+      setSecondaryRate(
+        await getExchangeRate(preferredCurrency, secondaryCurrency, new Date())
+      );
     } catch (error) {
-      console.error('Error loading currency preference:', error);
-    } finally {
-      setLoading(false);
+      console.error('Error loading secondary currency rate:', error);
     }
   }
 
@@ -59,12 +105,80 @@ export function CurrencyProvider({ children }: { children: React.ReactNode }) {
     return await convertAmount(amount, fromCurrency, preferredCurrency, date);
   }
 
+  async function convertManyToPreferred(items: ConversionItem[]) {
+    return await convertMany(items, preferredCurrency, {
+      recompute: !useLockedRates,
+    });
+  }
+
+  async function convertReport(items: ConversionItem[]) {
+    return await convertReportAmounts(items, preferredCurrency, {
+      recompute: !useLockedRates,
+    });
+  }
+
+  function formatAmount(amount: number, currency: Currency) {
+    return formatCurrencyAmount(amount, currency, formatPreferences);
+  }
+
+  function formatCompact(amount: number, currency: Currency) {
+    return formatCompactAmount(amount, currency, formatPreferences);
+  }
+
+  function formatRate(rate: number) {
+    return formatNumber(rate, formatPreferences);
+  }
+
+  function formatSecondary(amount: number) {
+    if (!secondaryCurrency || secondaryRate === null) return null;
+    return formatAmount(
+      Money.fromMajor(amount, preferredCurrency)
+        .convert(secondaryRate, secondaryCurrency)
+        .toMajor(),
+      secondaryCurrency
+    );
+  }
+
+  function formatDual(amount: number) {
+    const primary = formatAmount(amount, preferredCurrency);
+    const secondary = formatSecondary(amount);
+    return secondary ? `${primary} ≈ ${secondary}` : primary;
+  }
+
+  function formatConverted(convertedAmount: number, fromCurrency: Currency) {
+    return fromCurrency === preferredCurrency
+      ? formatSecondary(convertedAmount)
+      : formatDual(convertedAmount);
+  }
+
   return (
     <CurrencyContext.Provider
       value={{
         preferredCurrency,
-        setPreferredCurrency,
+        setPreferredCurrency: (currency) =>
+          updateSettings({ preferredCurrency: currency }),
+        secondaryCurrency,
+        setSecondaryCurrency: (currency) =>
+          updateSettings({ secondaryCurrency: currency }),
+        enabledCurrencies,
+        setEnabledCurrencies: (currencies) =>
+          updateSettings({ enabledCurrencies: currencies }),
+        useLockedRates,
+        setUseLockedRates: (value) => updateSettings({ useLockedRates: value }),
         convertToPreferred,
+        convertManyToPreferred,
+        conversionMode,
+        setConversionMode: (mode) => updateSettings({ conversionMode: mode }),
+        convertReport,
+        formatPreferences,
+        setFormatPreferences: (preferences) =>
+          updateSettings({ formatPreferences: preferences }),
+        formatAmount,
+        formatCompact,
+        formatRate,
+        formatSecondary,
+        formatDual,
+        formatConverted,
         loading,
       }}
     >
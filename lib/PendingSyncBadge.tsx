@@ -0,0 +1,45 @@
+import React from 'react';
+import { StyleSheet, View, Text } from 'react-native';
+import { AlertCircle, CloudOff } from 'lucide-react-native';
+import { useStore } from './StoreContext';
+
+/**
+ * Marks a transaction with changes that haven't reached the server yet,
+ * and whether the server rejected them
+ */
+export function PendingSyncBadge({ id }: { id: string }) {
+  const { pendingIds, failedIds } = useStore();
+
+  if (!pendingIds.has(id)) return null;
+
+  if (failedIds.has(id)) {
+    return (
+      <View style={styles.badge}>
+        <AlertCircle size={12} color="#dc2626" />
+        <Text style={[styles.text, styles.failedText]}>Sync failed</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.badge}>
+      <CloudOff size={12} color="#d97706" />
+      <Text style={styles.text}>Not synced</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  text: {
+    fontSize: 12,
+    color: '#d97706',
+  },
+  failedText: {
+    color: '#dc2626',
+  },
+});
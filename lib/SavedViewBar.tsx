@@ -0,0 +1,408 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  Modal,
+  Alert,
+} from 'react-native';
+import { BookmarkPlus } from 'lucide-react-native';
+import {
+  SavedView,
+  TRANSACTION_SORTS,
+  TransactionFilters,
+  TransactionSort,
+  createSavedView,
+  deleteSavedView,
+  listSavedViews,
+  sumTransactions,
+} from './data';
+import { useCurrency } from './CurrencyContext';
+import { useStore } from './StoreContext';
+import { useUserSettings } from './UserSettingsContext';
+import { netTotal } from './reportConversion';
+import {
+  hasFilters,
+  parseFilterParams,
+  toFilterParams,
+} from './transactionFilters';
+
+type ViewStats = {
+  count: number;
+  // Net, in the preferred currency
+  total: number;
+};
+
+// How long the stats wait for changes to settle before reloading
+const STATS_DELAY = 500;
+
+// Equal for the same filters however their params were written
+function listKey(filters: TransactionFilters, sort: TransactionSort) {
+  return JSON.stringify({ ...toFilterParams(filters), sort });
+}
+
+/**
+ * The user's saved views as chips with their live count and total. Totals
+ * are summed by currency and day on the server, then converted the way
+ * the list's own total is. Picking
+ * one opens its list, picking it again clears it, and holding it offers to
+ * delete it. The list on screen can be saved as a new view.
+ */
+export function SavedViewBar({
+  filters,
+  sort,
+  onSelect,
+}: {
+  filters: TransactionFilters;
+  sort: TransactionSort;
+  onSelect: (view: SavedView | null) => void;
+}) {
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [stats, setStats] = useState<Record<string, ViewStats>>({});
+  const [showSave, setShowSave] = useState(false);
+  const [name, setName] = useState('');
+  const [saveSort, setSaveSort] = useState<TransactionSort>(sort);
+  const [saving, setSaving] = useState(false);
+  const statsRequest = useRef(0);
+  const { userId } = useUserSettings();
+  const { amounts } = useStore();
+  const {
+    preferredCurrency,
+    useLockedRates,
+    conversionMode,
+    convertReport,
+    formatCompact,
+  } = useCurrency();
+
+  useEffect(() => {
+    setViews([]);
+    if (userId) loadViews();
+  }, [userId]);
+
+  // Kept live: recounted once transactions stop changing
+  useEffect(() => {
+    const timeout = setTimeout(loadStats, STATS_DELAY);
+    return () => clearTimeout(timeout);
+  }, [views, amounts, preferredCurrency, useLockedRates, conversionMode]);
+
+  async function loadViews() {
+    try {
+      setViews(await listSavedViews());
+    } catch (error) {
+      console.error('Error loading saved views:', error);
+    }
+  }
+
+  async function loadStats() {
+    const request = ++statsRequest.current;
+    try {
+      const sums = await Promise.all(
+        views.map((view) => sumTransactions(parseFilterParams(view.filters)))
+      );
+      // Every view's sums converted at once
+      const conversion = await convertReport(sums.flatMap((view) => view.sums));
+      const converted = conversion[conversionMode].amounts;
+      if (statsRequest.current !== request) return;
+
+      const loaded: Record<string, ViewStats> = {};
+      let start = 0;
+      views.forEach((view, index) => {
+        const { count, sums: viewSums } = sums[index];
+        const end = start + viewSums.length;
+        const total = netTotal(
+          viewSums,
+          converted.slice(start, end),
+          preferredCurrency
+        );
+        loaded[view.id] = { count, total: total.toMajor() };
+        start = end;
+      });
+      setStats(loaded);
+    } catch (error) {
+      console.error('Error loading saved view totals:', error);
+    }
+  }
+
+  function openSave() {
+    setName('');
+    setSaveSort(sort);
+    setShowSave(true);
+  }
+
+  async function handleSave() {
+    if (!name.trim()) {
+      Alert.alert('Error', 'Please enter a name');
+      return;
+    }
+    try {
+      setSaving(true);
+      const view = await createSavedView({
+        name: name.trim(),
+        filters: toFilterParams(filters),
+        sort: saveSort,
+      });
+      setViews((current) => [...current, view]);
+      setShowSave(false);
+      onSelect(view);
+    } catch (error) {
+      console.error('Error saving view:', error);
+      Alert.alert('Error', 'Failed to save view');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function handleDelete(view: SavedView) {
+    Alert.alert('Delete View', `Delete the "${view.name}" view?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteSavedView(view.id);
+            setViews((current) => current.filter((v) => v.id !== view.id));
+          } catch (error) {
+            console.error('Error deleting view:', error);
+            Alert.alert('Error', 'Failed to delete view');
+          }
+        },
+      },
+    ]);
+  }
+
+  const currentKey = listKey(filters, sort);
+  const activeView = views.find(
+    (view) => listKey(parseFilterParams(view.filters), view.sort) === currentKey
+  );
+  const canSave = !activeView && (hasFilters(filters) || sort !== 'date');
+
+  if (views.length === 0 && !canSave) return null;
+
+  return (
+    <>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.chips}
+      >
+        {views.map((view) => {
+          const active = view.id === activeView?.id;
+          const viewStats = stats[view.id];
+          return (
+            <TouchableOpacity
+              key={view.id}
+              style={[styles.chip, active && styles.chipActive]}
+              onPress={() => onSelect(active ? null : view)}
+              onLongPress={() => handleDelete(view)}
+            >
+              <Text style={[styles.chipName, active && styles.chipTextActive]}>
+                {view.name}
+              </Text>
+              {viewStats && (
+                <Text
+                  style={[styles.chipStats, active && styles.chipTextActive]}
+                >
+                  {viewStats.count} ·{' '}
+                  {formatCompact(viewStats.total, preferredCurrency)}
+                </Text>
+              )}
+            </TouchableOpacity>
+          );
+        })}
+        {canSave && (
+          <TouchableOpacity style={styles.saveChip} onPress={openSave}>
+            <BookmarkPlus size={16} color="#0891b2" />
+            <Text style={styles.saveChipText}>Save view</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+
+      <Modal
+        visible={showSave}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setShowSave(false)}
+      >
+        <View style={styles.overlay}>
+          <View style={styles.dialog}>
+            <Text style={styles.dialogTitle}>Save View</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Name, e.g. Dining this month"
+              value={name}
+              onChangeText={setName}
+              placeholderTextColor="#94a3b8"
+              autoFocus
+            />
+            <Text style={styles.label}>Sort by</Text>
+            <View style={styles.sortOptions}>
+              {TRANSACTION_SORTS.map((option) => (
+                <TouchableOpacity
+                  key={option.sort}
+                  style={[
+                    styles.sortOption,
+                    saveSort === option.sort && styles.chipActive,
+                  ]}
+                  onPress={() => setSaveSort(option.sort)}
+                >
+                  <Text
+                    style={[
+                      styles.sortOptionText,
+                      saveSort === option.sort && styles.chipTextActive,
+                    ]}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <View style={styles.dialogButtons}>
+              <TouchableOpacity
+                style={styles.dialogButton}
+                onPress={() => setShowSave(false)}
+              >
+                <Text style={styles.cancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.dialogButton,
+                  styles.saveButton,
+                  saving && styles.buttonDisabled,
+                ]}
+                onPress={handleSave}
+                disabled={saving}
+              >
+                <Text style={styles.saveButtonText}>
+                  {saving ? 'Saving...' : 'Save'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  chips: {
+    gap: 8,
+    paddingTop: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#fff',
+  },
+  chipActive: {
+    backgroundColor: '#0891b2',
+    borderColor: '#0891b2',
+  },
+  chipName: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#0f172a',
+  },
+  chipStats: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  saveChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#0891b2',
+  },
+  saveChipText: {
+    fontSize: 14,
+    color: '#0891b2',
+    fontWeight: '500',
+  },
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 20,
+    backgroundColor: 'rgba(15, 23, 42, 0.5)',
+  },
+  dialog: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 20,
+  },
+  dialogTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#0f172a',
+    marginBottom: 16,
+  },
+  input: {
+    backgroundColor: '#f1f5f9',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#0f172a',
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    color: '#64748b',
+    marginBottom: 8,
+  },
+  sortOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  sortOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  sortOptionText: {
+    fontSize: 14,
+    color: '#0f172a',
+  },
+  dialogButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 20,
+  },
+  dialogButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#64748b',
+  },
+  saveButton: {
+    backgroundColor: '#0891b2',
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
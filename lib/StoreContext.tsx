@@ -0,0 +1,597 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useMemo,
+  useRef,
+} from 'react';
+import { AppState } from 'react-native';
+import {
+  Category,
+  CategoryInput,
+  PendingChange,
+  SyncResult,
+  TRANSACTION_PAGE_SIZE,
+  Transaction,
+  TransactionAmount,
+  TransactionCursor,
+  TransactionInput,
+  generateId,
+  getTransaction,
+  listCategories,
+  listTransactionAmounts,
+  listTransactionsPage,
+  loadLocalSnapshot,
+  pushChange,
+  saveLocalAmounts,
+  saveLocalPending,
+  saveLocalSnapshot,
+  subscribeToUserChanges,
+  toTransaction,
+  toTransactionAmount,
+  toTransactionInput,
+} from './data';
+import { useUserSettings } from './UserSettingsContext';
+
+interface StoreContextType {
+  // The pages loaded so far, newest first, including changes not synced
+  // yet
+  transactions: Transaction[];
+  // Every transaction, for totals
+  amounts: TransactionAmount[];
+  // Counted from the amounts, so changes not synced yet count too
+  totalCount: number;
+  // Whether there are older transactions than the loaded pages
+  hasMore: boolean;
+  loadingMore: boolean;
+  loadMore: () => Promise<void>;
+  // Ordered by type and name
+  categories: Category[];
+  // Ids of transactions and categories with changes not synced yet
+  pendingIds: Set<string>;
+  // The ones among them the server rejected
+  failedIds: Set<string>;
+  // Ids of transactions deleted on the server since the store loaded,
+  // here or on another device
+  deletedTransactionIds: Set<string>;
+  loading: boolean;
+  // Reload everything from the server, e.g. on pull-to-refresh
+  refresh: () => Promise<void>;
+  // Saved on this device right away, and on the server once online
+  createTransaction: (input: TransactionInput) => Transaction;
+  // Takes the whole transaction, which may be outside the loaded pages
+  updateTransaction: (
+    transaction: Transaction,
+    changes: Partial<TransactionInput>
+  ) => void;
+  deleteTransaction: (id: string) => void;
+  createCategory: (input: CategoryInput) => Category;
+  updateCategory: (id: string, changes: Partial<CategoryInput>) => void;
+  deleteCategory: (id: string) => void;
+}
+
+const StoreContext = createContext<StoreContextType | undefined>(undefined);
+
+// How often queued changes are retried while offline
+const SYNC_RETRY_INTERVAL = 30 * 1000;
+
+function compareTransactions(a: TransactionCursor, b: TransactionCursor) {
+  return (
+    new Date(a.date).getTime() - new Date(b.date).getTime() ||
+    a.id.localeCompare(b.id)
+  );
+}
+
+// The order pages are loaded in
+function byDateDesc(a: Transaction, b: Transaction) {
+  return compareTransactions(b, a);
+}
+
+function byTypeAndName(a: Category, b: Category) {
+  return a.type.localeCompare(b.type) || a.name.localeCompare(b.name);
+}
+
+function withRow<T extends { id: string }>(rows: T[], row: T): T[] {
+  return [...rows.filter((r) => r.id !== row.id), row];
+}
+
+function withoutRow<T extends { id: string }>(rows: T[], id: string): T[] {
+  return rows.filter((r) => r.id !== id);
+}
+
+/**
+ * The signed-in user's transactions and categories, shared by every
+ * screen. They're kept on the device so screens load instantly and
+ * changes can be made offline; queued changes sync once the server can be
+ * reached, and changes from other devices arrive through realtime.
+ */
+export function StoreProvider({ children }: { children: React.ReactNode }) {
+  const { userId, updateSettings } = useUserSettings();
+  // As last loaded from the server
+  const [serverTransactions, setServerTransactions] = useState<Transaction[]>(
+    []
+  );
+  const [serverAmounts, setServerAmounts] = useState<TransactionAmount[]>([]);
+  const [serverCategories, setServerCategories] = useState<Category[]>([]);
+  const [pending, setPending] = useState<PendingChange[]>([]);
+  const [deletedTransactionIds, setDeletedTransactionIds] = useState<
+    Set<string>
+  >(new Set());
+  // Where the next page starts, null once every page is loaded
+  const [cursor, setCursor] = useState<TransactionCursor | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Loads finishing after the user changed are dropped
+  const currentUserId = useRef(userId);
+  // Set once the local snapshot is loaded, so it isn't overwritten first
+  const loadedUserId = useRef<string | null>(null);
+  // The queue as of now, for the sync loop
+  const pendingRef = useRef<PendingChange[]>([]);
+  const syncing = useRef(false);
+  // The cursor as of now, for realtime changes
+  const cursorRef = useRef<TransactionCursor | null>(null);
+  // The page being loaded, so it isn't requested twice
+  const loadingCursor = useRef<TransactionCursor | null>(null);
+
+  function updatePending(
+    update: (current: PendingChange[]) => PendingChange[]
+  ) {
+    pendingRef.current = update(pendingRef.current);
+    setPending(pendingRef.current);
+  }
+
+  function updateCursor(next: TransactionCursor | null) {
+    cursorRef.current = next;
+    setCursor(next);
+  }
+
+  // Changes outside the loaded pages only count towards totals, or
+  // loading the next page would skip the rows in between
+  function isLoaded(transaction: Transaction) {
+    return (
+      !cursorRef.current ||
+      compareTransactions(transaction, cursorRef.current) >= 0
+    );
+  }
+
+  useEffect(() => {
+    currentUserId.current = userId;
+    loadedUserId.current = null;
+    setServerTransactions([]);
+    setServerAmounts([]);
+    setServerCategories([]);
+    updatePending(() => []);
+    updateCursor(null);
+    setDeletedTransactionIds(new Set());
+
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    loadStore(userId);
+
+    return subscribeToUserChanges(userId, {
+      onTransactionChange: reloadTransaction,
+      onTransactionDelete: removeServerTransaction,
+      onCategoryChange: applyServerCategory,
+      onCategoryDelete: removeServerCategory,
+      onUserSettingsChange: updateSettings,
+    });
+  }, [userId]);
+
+  // Persist the first page and everything else, so the next start shows
+  // it before the server answers
+  useEffect(() => {
+    if (!userId || loadedUserId.current !== userId) return;
+    const firstPage = serverTransactions.slice(0, TRANSACTION_PAGE_SIZE);
+    const last = firstPage[firstPage.length - 1];
+    saveLocalSnapshot(userId, {
+      transactions: firstPage,
+      cursor:
+        serverTransactions.length > firstPage.length
+          ? { date: last.date, id: last.id }
+          : cursor,
+      categories: serverCategories,
+    });
+  }, [serverTransactions, cursor, serverCategories]);
+
+  useEffect(() => {
+    if (!userId || loadedUserId.current !== userId) return;
+    saveLocalAmounts(userId, serverAmounts);
+  }, [serverAmounts]);
+
+  useEffect(() => {
+    if (!userId || loadedUserId.current !== userId) return;
+    saveLocalPending(userId, pending);
+  }, [pending]);
+
+  // Sync new changes right away
+  useEffect(() => {
+    if (pending.length > 0) syncPending();
+  }, [pending]);
+
+  // Retry while some are queued, and whenever the app comes back
+  useEffect(() => {
+    if (pending.length === 0) return;
+
+    const interval = setInterval(syncPending, SYNC_RETRY_INTERVAL);
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') syncPending();
+    });
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, [pending.length > 0]);
+
+  async function loadStore(forUserId: string) {
+    const local = await loadLocalSnapshot(forUserId);
+    if (currentUserId.current !== forUserId) return;
+
+    setServerTransactions(local.transactions);
+    setServerAmounts(local.amounts);
+    setServerCategories(local.categories);
+    updatePending(() => local.pending);
+    updateCursor(local.cursor);
+    loadedUserId.current = forUserId;
+    if (local.transactions.length > 0 || local.categories.length > 0) {
+      setLoading(false);
+    }
+
+    await loadFromServer(forUserId);
+  }
+
+  async function loadFromServer(forUserId: string) {
+    try {
+      const [firstPage, loadedAmounts, loadedCategories] = await Promise.all([
+        listTransactionsPage(null),
+        listTransactionAmounts(),
+        listCategories(),
+      ]);
+      if (currentUserId.current !== forUserId) return;
+
+      setServerTransactions(firstPage.transactions);
+      updateCursor(firstPage.nextCursor);
+      setServerAmounts(loadedAmounts);
+      setServerCategories(loadedCategories);
+    } catch (error) {
+      // Offline, the local snapshot is shown until the next refresh
+      console.error('Error loading transactions:', error);
+    } finally {
+      if (currentUserId.current === forUserId) setLoading(false);
+    }
+  }
+
+  async function refresh() {
+    if (userId) await loadFromServer(userId);
+  }
+
+  async function loadMore() {
+    const forUserId = userId;
+    const from = cursor;
+    if (!forUserId || !from || loadingCursor.current === from) return;
+
+    loadingCursor.current = from;
+    setLoadingMore(true);
+    try {
+      const page = await listTransactionsPage(from);
+      // Dropped if the user changed or the list was reloaded meanwhile
+      if (currentUserId.current !== forUserId || cursorRef.current !== from) {
+        return;
+      }
+
+      setServerTransactions((current) =>
+        page.transactions.reduce(withRow, current)
+      );
+      updateCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading more transactions:', error);
+    } finally {
+      loadingCursor.current = null;
+      setLoadingMore(false);
+    }
+  }
+
+  async function syncPending() {
+    const forUserId = userId;
+    if (!forUserId || syncing.current) return;
+
+    syncing.current = true;
+    try {
+      // In order, so rows are created before rows that reference them.
+      // Each is tried once a run, including changes queued meanwhile.
+      const tried = new Set<PendingChange>();
+      let change: PendingChange | undefined;
+      while ((change = pendingRef.current.find((c) => !tried.has(c)))) {
+        tried.add(change);
+        let result: SyncResult;
+        try {
+          result = await pushChange(forUserId, change);
+        } catch (error) {
+          // Kept, e.g. an expired session or a category that failed too
+          console.error('Error syncing change:', error);
+          if (currentUserId.current !== forUserId) return;
+          const failed = {
+            ...change,
+            error: error instanceof Error ? error.message : 'Failed to sync',
+          };
+          tried.add(failed);
+          const rejected = change;
+          updatePending((current) =>
+            current.map((c) => (c === rejected ? failed : c))
+          );
+          continue;
+        }
+        if (result === 'offline' || currentUserId.current !== forUserId) {
+          return;
+        }
+
+        if (result === 'synced') {
+          await applySyncedChange(change);
+        } else {
+          await loadFromServer(forUserId);
+        }
+        // Only this change, a newer one for the row may be queued already
+        const synced = change;
+        updatePending((current) => current.filter((c) => c !== synced));
+      }
+    } finally {
+      syncing.current = false;
+    }
+  }
+
+  async function applySyncedChange(change: PendingChange) {
+    if (change.table === 'transactions') {
+      if (change.values) {
+        // Read back for its category
+        await reloadTransaction(change.id);
+      } else {
+        removeServerTransaction(change.id);
+      }
+    } else if (change.values) {
+      applyServerCategory({ id: change.id, ...change.values });
+    } else {
+      removeServerCategory(change.id);
+    }
+  }
+
+  async function reloadTransaction(id: string) {
+    try {
+      const transaction = await getTransaction(id);
+      setServerAmounts((current) =>
+        withRow(current, toTransactionAmount(transaction))
+      );
+      setServerTransactions((current) =>
+        isLoaded(transaction)
+          ? withRow(current, transaction)
+          : withoutRow(current, id)
+      );
+    } catch (error) {
+      console.error('Error loading changed transaction:', error);
+    }
+  }
+
+  function removeServerTransaction(id: string) {
+    setServerAmounts((current) => withoutRow(current, id));
+    setServerTransactions((current) => withoutRow(current, id));
+    setDeletedTransactionIds((current) => new Set(current).add(id));
+  }
+
+  function applyServerCategory(category: Category) {
+    setServerCategories((current) => withRow(current, category));
+    // Renames and recolors show on the transactions using it
+    setServerTransactions((current) =>
+      current.map((t) =>
+        t.category_id === category.id
+          ? {
+              ...t,
+              category: {
+                id: category.id,
+                name: category.name,
+                color: category.color,
+              },
+            }
+          : t
+      )
+    );
+  }
+
+  function removeServerCategory(id: string) {
+    setServerCategories((current) => withoutRow(current, id));
+    // The database clears category_id on its transactions
+    setServerTransactions((current) =>
+      current.map((t) =>
+        t.category_id === id ? { ...t, category_id: null, category: null } : t
+      )
+    );
+    setServerAmounts((current) =>
+      current.map((t) =>
+        t.category_id === id ? { ...t, category_id: null } : t
+      )
+    );
+  }
+
+  // Queued changes applied over the server's rows
+  const categories = useMemo(() => {
+    let rows = serverCategories;
+    pending.forEach((change) => {
+      if (change.table !== 'categories') return;
+      rows = change.values
+        ? withRow(rows, { id: change.id, ...change.values })
+        : withoutRow(rows, change.id);
+    });
+    return rows.slice().sort(byTypeAndName);
+  }, [serverCategories, pending]);
+
+  function findCategory(id: string | null | undefined) {
+    const category = categories.find((c) => c.id === id);
+    return category
+      ? { id: category.id, name: category.name, color: category.color }
+      : null;
+  }
+
+  const transactions = useMemo(() => {
+    let rows = serverTransactions;
+    pending.forEach((change) => {
+      if (change.table !== 'transactions') return;
+      rows = change.values
+        ? withRow(
+            rows,
+            toTransaction(
+              change.id,
+              change.values,
+              findCategory(change.values.category_id)
+            )
+          )
+        : withoutRow(rows, change.id);
+    });
+    return rows.slice().sort(byDateDesc);
+  }, [serverTransactions, categories, pending]);
+
+  const amounts = useMemo(() => {
+    let rows = serverAmounts;
+    pending.forEach((change) => {
+      if (change.table !== 'transactions') return;
+      rows = change.values
+        ? withRow(
+            rows,
+            toTransactionAmount(toTransaction(change.id, change.values, null))
+          )
+        : withoutRow(rows, change.id);
+    });
+    return rows;
+  }, [serverAmounts, pending]);
+
+  const pendingIds = useMemo(
+    () => new Set(pending.map((change) => change.id)),
+    [pending]
+  );
+
+  const failedIds = useMemo(
+    () =>
+      new Set(
+        pending.filter((change) => change.error).map((change) => change.id)
+      ),
+    [pending]
+  );
+
+  function enqueue(change: PendingChange) {
+    updatePending((current) => {
+      const index = current.findIndex(
+        (c) => c.table === change.table && c.id === change.id
+      );
+      // Saves keep their place, so rows are created before rows that
+      // reference them. Deletes go last, after anything still using them.
+      if (index === -1 || !change.values) {
+        return [...current.filter((_, i) => i !== index), change];
+      }
+      return current.map((c, i) => (i === index ? change : c));
+    });
+  }
+
+  function createTransaction(input: TransactionInput) {
+    const id = generateId();
+    enqueue({
+      table: 'transactions',
+      id,
+      values: input,
+      updatedAt: new Date().toISOString(),
+    });
+    return toTransaction(id, input, findCategory(input.category_id));
+  }
+
+  function updateTransaction(
+    transaction: Transaction,
+    changes: Partial<TransactionInput>
+  ) {
+    enqueue({
+      table: 'transactions',
+      id: transaction.id,
+      values: { ...toTransactionInput(transaction), ...changes },
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  function deleteTransaction(id: string) {
+    enqueue({
+      table: 'transactions',
+      id,
+      values: null,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  function createCategory(input: CategoryInput) {
+    const id = generateId();
+    enqueue({
+      table: 'categories',
+      id,
+      values: input,
+      updatedAt: new Date().toISOString(),
+    });
+    return { id, ...input };
+  }
+
+  function updateCategory(id: string, changes: Partial<CategoryInput>) {
+    const category = categories.find((c) => c.id === id);
+    if (!category) return;
+    enqueue({
+      table: 'categories',
+      id,
+      values: {
+        name: category.name,
+        color: category.color,
+        type: category.type,
+        ...changes,
+      },
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  function deleteCategory(id: string) {
+    enqueue({
+      table: 'categories',
+      id,
+      values: null,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  return (
+    <StoreContext.Provider
+      value={{
+        transactions,
+        amounts,
+        totalCount: amounts.length,
+        hasMore: cursor !== null,
+        loadingMore,
+        loadMore,
+        categories,
+        pendingIds,
+        failedIds,
+        deletedTransactionIds,
+        loading,
+        refresh,
+        createTransaction,
+        updateTransaction,
+        deleteTransaction,
+        createCategory,
+        updateCategory,
+        deleteCategory,
+      }}
+    >
+      {children}
+    </StoreContext.Provider>
+  );
+}
+
+export function useStore() {
+  const context = useContext(StoreContext);
+  if (context === undefined) {
+    throw new Error('useStore must be used within a StoreProvider');
+  }
+  return context;
+}
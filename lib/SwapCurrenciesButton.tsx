@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { ArrowLeftRight } from 'lucide-react-native';
+import { updateUserSettings } from './data';
+import { useCurrency } from './CurrencyContext';
+
+/**
+ * Swap the preferred and secondary currencies, so reports are converted
+ * into the other one
+ */
+export function SwapCurrenciesButton({
+  color = '#0891b2',
+}: {
+  color?: string;
+}) {
+  const [updating, setUpdating] = useState(false);
+  const {
+    preferredCurrency,
+    setPreferredCurrency,
+    secondaryCurrency,
+    setSecondaryCurrency,
+  } = useCurrency();
+
+  if (!secondaryCurrency) return null;
+
+  async function swapCurrencies() {
+    if (!secondaryCurrency) return;
+    try {
+      setUpdating(true);
+      await updateUserSettings({
+        preferredCurrency: secondaryCurrency,
+        secondaryCurrency: preferredCurrency,
+      });
+
+      setPreferredCurrency(secondaryCurrency);
+      setSecondaryCurrency(preferredCurrency);
+    } catch (error) {
+      console.error('Error swapping currencies:', error);
+      Alert.alert('Error', 'Failed to swap currencies');
+    } finally {
+      setUpdating(false);
+    }
+  }
+
+  return (
+    <TouchableOpacity
+      style={styles.button}
+      onPress={swapCurrencies}
+      disabled={updating}
+      accessibilityLabel={`Show amounts in ${secondaryCurrency} first`}
+    >
+      <ArrowLeftRight size={18} color={color} />
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    padding: 6,
+  },
+});
@@ -0,0 +1,440 @@
+import React, { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  Modal,
+  Platform,
+} from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { endOfDay, format, startOfDay } from 'date-fns';
+import { Calendar, X } from 'lucide-react-native';
+import { DATE_PERIODS, TransactionFilters, TransactionType } from './data';
+import { useCurrency } from './CurrencyContext';
+import { useStore } from './StoreContext';
+
+const TYPE_OPTIONS: { type: TransactionType; label: string }[] = [
+  { type: 'expense', label: 'Expense' },
+  { type: 'income', label: 'Income' },
+  { type: 'exchange', label: 'Exchange' },
+];
+
+// Adds or removes `item`, with an empty list meaning no filter
+function toggle<T>(items: T[] | undefined, item: T): T[] | undefined {
+  const next = items?.includes(item)
+    ? items.filter((i) => i !== item)
+    : [...(items || []), item];
+  return next.length > 0 ? next : undefined;
+}
+
+function parseAmount(value: string): number | undefined {
+  const amount = value.trim() ? Number(value) : NaN;
+  return isFinite(amount) ? amount : undefined;
+}
+
+function Chip({
+  label,
+  color,
+  selected,
+  onPress,
+}: {
+  label: string;
+  color?: string;
+  selected: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <TouchableOpacity
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+    >
+      {color && <View style={[styles.chipDot, { backgroundColor: color }]} />}
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+/**
+ * Edits every filter but the search at once. Changes only apply when
+ * confirmed.
+ */
+export function TransactionFilterSheet({
+  visible,
+  filters,
+  onApply,
+  onClose,
+}: {
+  visible: boolean;
+  filters: TransactionFilters;
+  onApply: (filters: TransactionFilters) => void;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState<TransactionFilters>(filters);
+  const [minAmount, setMinAmount] = useState('');
+  const [maxAmount, setMaxAmount] = useState('');
+  const [pickingDate, setPickingDate] = useState<'from' | 'to' | null>(null);
+  const { enabledCurrencies } = useCurrency();
+  const { categories } = useStore();
+
+  // Start from the filters in use each time the sheet opens
+  useEffect(() => {
+    if (!visible) return;
+    setDraft(filters);
+    setMinAmount(filters.minAmount?.toString() ?? '');
+    setMaxAmount(filters.maxAmount?.toString() ?? '');
+    setPickingDate(null);
+  }, [visible]);
+
+  function update(changes: Partial<TransactionFilters>) {
+    setDraft((current) => ({ ...current, ...changes }));
+  }
+
+  // Exact dates and a period replace each other
+  function setDate(field: 'from' | 'to', date: Date) {
+    update({
+      [field]: field === 'from' ? startOfDay(date) : endOfDay(date),
+      period: undefined,
+    });
+  }
+
+  function reset() {
+    setDraft({ search: filters.search });
+    setMinAmount('');
+    setMaxAmount('');
+  }
+
+  function apply() {
+    onApply({
+      ...draft,
+      minAmount: parseAmount(minAmount),
+      maxAmount: parseAmount(maxAmount),
+    });
+  }
+
+  const renderDateField = (field: 'from' | 'to', label: string) => {
+    const value = draft[field];
+    return (
+      <TouchableOpacity
+        style={styles.dateField}
+        onPress={() => setPickingDate(field)}
+      >
+        <Text style={styles.inputLabel}>{label}</Text>
+        <View style={styles.dateValue}>
+          <Calendar size={16} color="#64748b" />
+          <Text style={value ? styles.inputText : styles.placeholderText}>
+            {value ? format(value, 'MMM d, yyyy') : 'Any'}
+          </Text>
+          {value && (
+            <TouchableOpacity onPress={() => update({ [field]: undefined })}>
+              <X size={16} color="#64748b" />
+            </TouchableOpacity>
+          )}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Filters</Text>
+          <TouchableOpacity onPress={reset}>
+            <Text style={styles.cancelText}>Reset</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content}>
+          <Text style={styles.sectionTitle}>Date</Text>
+          <View style={styles.chips}>
+            {DATE_PERIODS.map(({ period, label }) => (
+              <Chip
+                key={period}
+                label={label}
+                selected={draft.period === period}
+                onPress={() =>
+                  update(
+                    draft.period === period
+                      ? { period: undefined }
+                      : { period, from: undefined, to: undefined }
+                  )
+                }
+              />
+            ))}
+          </View>
+          <View style={styles.row}>
+            {renderDateField('from', 'From')}
+            {renderDateField('to', 'To')}
+          </View>
+
+          {pickingDate && Platform.OS === 'ios' && (
+            <View style={styles.datePickerContainer}>
+              <TouchableOpacity
+                onPress={() => setPickingDate(null)}
+                style={styles.datePickerDone}
+              >
+                <Text style={styles.doneText}>Done</Text>
+              </TouchableOpacity>
+              <DateTimePicker
+                value={draft[pickingDate] || new Date()}
+                mode="date"
+                display="spinner"
+                onChange={(event, selectedDate) => {
+                  if (selectedDate) setDate(pickingDate, selectedDate);
+                }}
+              />
+            </View>
+          )}
+
+          {pickingDate && Platform.OS === 'android' && (
+            <DateTimePicker
+              value={draft[pickingDate] || new Date()}
+              mode="date"
+              display="default"
+              onChange={(event, selectedDate) => {
+                setPickingDate(null);
+                if (selectedDate) setDate(pickingDate, selectedDate);
+              }}
+            />
+          )}
+
+          <Text style={styles.sectionTitle}>Type</Text>
+          <View style={styles.chips}>
+            {TYPE_OPTIONS.map(({ type, label }) => (
+              <Chip
+                key={type}
+                label={label}
+                selected={!!draft.types?.includes(type)}
+                onPress={() => update({ types: toggle(draft.types, type) })}
+              />
+            ))}
+          </View>
+
+          <Text style={styles.sectionTitle}>Categories</Text>
+          <View style={styles.chips}>
+            {categories.map((category) => (
+              <Chip
+                key={category.id}
+                label={category.name}
+                color={category.color}
+                selected={!!draft.categoryIds?.includes(category.id)}
+                onPress={() =>
+                  update({
+                    categoryIds: toggle(draft.categoryIds, category.id),
+                  })
+                }
+              />
+            ))}
+            <Chip
+              label="Uncategorized"
+              color="#cbd5e1"
+              selected={!!draft.uncategorized}
+              onPress={() =>
+                update({
+                  uncategorized: draft.uncategorized ? undefined : true,
+                })
+              }
+            />
+          </View>
+
+          <Text style={styles.sectionTitle}>Currencies</Text>
+          <View style={styles.chips}>
+            {enabledCurrencies.map((currency) => (
+              <Chip
+                key={currency}
+                label={currency}
+                selected={!!draft.currencies?.includes(currency)}
+                onPress={() =>
+                  update({ currencies: toggle(draft.currencies, currency) })
+                }
+              />
+            ))}
+          </View>
+
+          <Text style={styles.sectionTitle}>Amount</Text>
+          <Text style={styles.hint}>In each transaction's own currency</Text>
+          <View style={styles.row}>
+            <View style={styles.amountField}>
+              <Text style={styles.inputLabel}>Min</Text>
+              <TextInput
+                style={styles.inputText}
+                placeholder="Any"
+                value={minAmount}
+                onChangeText={setMinAmount}
+                keyboardType="decimal-pad"
+                placeholderTextColor="#94a3b8"
+              />
+            </View>
+            <View style={styles.amountField}>
+              <Text style={styles.inputLabel}>Max</Text>
+              <TextInput
+                style={styles.inputText}
+                placeholder="Any"
+                value={maxAmount}
+                onChangeText={setMaxAmount}
+                keyboardType="decimal-pad"
+                placeholderTextColor="#94a3b8"
+              />
+            </View>
+          </View>
+
+          <TouchableOpacity style={styles.button} onPress={apply}>
+            <Text style={styles.buttonText}>Show Results</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  header: {
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    height: 60,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#0f172a',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#64748b',
+  },
+  content: {
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#0f172a',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#64748b',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 12,
+  },
+  dateField: {
+    flex: 1,
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 12,
+  },
+  dateValue: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  amountField: {
+    flex: 1,
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 12,
+  },
+  inputLabel: {
+    fontSize: 12,
+    color: '#64748b',
+    marginBottom: 4,
+  },
+  inputText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#0f172a',
+  },
+  placeholderText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#94a3b8',
+  },
+  datePickerContainer: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  datePickerDone: {
+    alignSelf: 'flex-end',
+    padding: 12,
+  },
+  doneText: {
+    fontSize: 16,
+    color: '#0891b2',
+    fontWeight: '600',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#fff',
+  },
+  chipSelected: {
+    backgroundColor: '#0891b2',
+    borderColor: '#0891b2',
+  },
+  chipDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 6,
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#0f172a',
+  },
+  chipTextSelected: {
+    color: '#fff',
+    fontWeight: '500',
+  },
+  button: {
+    backgroundColor: '#0891b2',
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,997 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  Platform,
+  KeyboardType,
+} from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import {
+  Category,
+  Transaction,
+  TransactionInput,
+  TransactionType,
+} from './data';
+import { ChevronDown, Calendar } from 'lucide-react-native';
+import { useCurrency } from './CurrencyContext';
+import { useStore } from './StoreContext';
+import { Currency, getExchangeRate, lockConversion } from './currency';
+import { Money } from './money';
+import { CURRENCIES, isCurrency } from './currencies';
+import { summarizeExchange } from './exchangeTransactions';
+
+import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
+import { format } from 'date-fns';
+
+/**
+ * Strip a typed amount down to digits and one decimal point, or return
+ * null if it has more decimals than the currency allows
+ */
+function sanitizeAmount(text: string, minorUnits: number): string | null {
+  // Remove any non-numeric characters except decimal point
+  const numericValue = text.replace(/[^0-9.]/g, '');
+
+  // Ensure only one decimal point
+  const parts = numericValue.split('.');
+  if (parts.length > 2 || (parts.length === 2 && minorUnits === 0)) {
+    return null;
+  }
+
+  // Limit decimal places to the currency's minor units
+  if (parts[1] && parts[1].length > minorUnits) {
+    return null;
+  }
+
+  return numericValue;
+}
+
+/**
+ * The form for adding a transaction, or editing one when `transaction` is
+ * given. Adding resets it after each submit.
+ */
+export function TransactionForm({
+  transaction,
+  onSubmit,
+  onCancel,
+}: {
+  transaction?: Transaction;
+  onSubmit: (input: TransactionInput) => void;
+  onCancel?: () => void;
+}) {
+  const { preferredCurrency, enabledCurrencies, formatAmount, formatRate } =
+    useCurrency();
+  const { categories: allCategories } = useStore();
+  const [amount, setAmount] = useState(
+    transaction ? String(transaction.amount) : ''
+  );
+  const [description, setDescription] = useState(
+    transaction?.description || ''
+  );
+  const [type, setType] = useState<TransactionType>(
+    transaction?.type || 'expense'
+  );
+  const [category, setCategory] = useState<Category | null>(
+    allCategories.find((c) => c.id === transaction?.category_id) || null
+  );
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [currency, setCurrency] = useState<Currency>(
+    transaction?.currency || preferredCurrency
+  );
+  const [showCurrencyPicker, setShowCurrencyPicker] = useState(false);
+  const [showCategoryPicker, setShowCategoryPicker] = useState(false);
+  const [date, setDate] = useState(
+    transaction ? new Date(transaction.date) : new Date()
+  );
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [marketRate, setMarketRate] = useState<number | null>(null);
+  const [rateOverride, setRateOverride] = useState(
+    transaction?.rate_overridden && transaction.exchange_rate
+      ? String(transaction.exchange_rate)
+      : ''
+  );
+  // The rate the transaction was saved with stays until its currency or
+  // date changes
+  const keepRateOverride = useRef(rateOverride !== '');
+  const [destinationCurrency, setDestinationCurrency] = useState<Currency>(
+    transaction?.destination_currency ||
+      enabledCurrencies.find((c) => c !== preferredCurrency) ||
+      preferredCurrency
+  );
+  const [destinationAmount, setDestinationAmount] = useState(
+    transaction?.destination_amount
+      ? String(transaction.destination_amount)
+      : ''
+  );
+  const [fee, setFee] = useState(
+    transaction?.fee ? String(transaction.fee) : ''
+  );
+  const [exchangeMarketRate, setExchangeMarketRate] = useState<number | null>(
+    null
+  );
+
+  useEffect(() => {
+    fetchMarketRate();
+  }, [currency, date, preferredCurrency]);
+
+  useEffect(() => {
+    fetchExchangeMarketRate();
+  }, [type, currency, destinationCurrency, date]);
+
+  async function fetchMarketRate() {
+    setMarketRate(null);
+    if (keepRateOverride.current) {
+      keepRateOverride.current = false;
+    } else {
+      setRateOverride('');
+    }
+    if (currency === preferredCurrency) return;
+
+    try {
+      setMarketRate(await getExchangeRate(currency, preferredCurrency, date));
+    } catch (error) {
+      console.error('Error fetching exchange rate:', error);
+    }
+  }
+
+  async function fetchExchangeMarketRate() {
+    setExchangeMarketRate(null);
+    if (type !== 'exchange' || currency === destinationCurrency) return;
+
+    try {
+      setExchangeMarketRate(
+        await getExchangeRate(currency, destinationCurrency, date)
+      );
+    } catch (error) {
+      console.error('Error fetching exchange rate:', error);
+    }
+  }
+
+  // Exchanges move money between currencies, they have no category
+  const categories = allCategories.filter((c) => c.type === type);
+  const currencies = enabledCurrencies.map((code) => CURRENCIES[code]);
+  const { minorUnits } = CURRENCIES[currency];
+
+  const resetForm = () => {
+    setAmount('');
+    setDescription('');
+    setType('expense');
+    setCategory(null);
+    setCurrency(preferredCurrency);
+    setRateOverride('');
+    setDestinationAmount('');
+    setFee('');
+    setError(null);
+  };
+
+  const handleAmountChange = (text: string) => {
+    const value = sanitizeAmount(text, minorUnits);
+    if (value !== null) setAmount(value);
+  };
+
+  const handleDestinationAmountChange = (text: string) => {
+    const value = sanitizeAmount(
+      text,
+      CURRENCIES[destinationCurrency].minorUnits
+    );
+    if (value !== null) setDestinationAmount(value);
+  };
+
+  const handleFeeChange = (text: string) => {
+    const value = sanitizeAmount(text, minorUnits);
+    if (value !== null) setFee(value);
+  };
+
+  const selectCurrency = (code: Currency) => {
+    setCurrency(code);
+    setAmount('');
+    setFee('');
+    // An exchange needs two different currencies
+    if (code === destinationCurrency) {
+      setDestinationCurrency(
+        enabledCurrencies.find((c) => c !== code) || destinationCurrency
+      );
+      setDestinationAmount('');
+    }
+  };
+
+  const handleRateChange = (text: string) => {
+    const numericValue = text.replace(/[^0-9.]/g, '');
+    if (numericValue.split('.').length > 2) {
+      return;
+    }
+    setRateOverride(numericValue);
+  };
+
+  const effectiveRate = rateOverride ? parseFloat(rateOverride) : marketRate;
+  const parsedAmount = Money.parse(amount, currency);
+  const parsedDestination = Money.parse(destinationAmount, destinationCurrency);
+  const parsedFee = fee ? Money.parse(fee, currency) : Money.zero(currency);
+  const exchangeSummary =
+    type === 'exchange' &&
+    parsedAmount &&
+    !parsedAmount.isZero() &&
+    parsedDestination &&
+    !parsedDestination.isZero() &&
+    parsedFee
+      ? summarizeExchange(
+          parsedAmount,
+          parsedDestination,
+          parsedFee,
+          exchangeMarketRate
+        )
+      : null;
+
+  async function handleSubmit() {
+    try {
+      setLoading(true);
+      setError(null);
+
+      if (!amount || (!description && type !== 'exchange')) {
+        throw new Error('Please fill in all required fields');
+      }
+
+      if (!isCurrency(currency)) {
+        throw new Error('Please select a supported currency');
+      }
+
+      const money = Money.parse(amount, currency);
+      if (!money || money.isZero() || money.isNegative()) {
+        throw new Error('Please enter a valid amount');
+      }
+
+      if (rateOverride && !(parseFloat(rateOverride) > 0)) {
+        throw new Error('Please enter a valid exchange rate');
+      }
+
+      // Cleared when an exchange is edited into another type
+      let exchangeFields: Partial<TransactionInput> = {
+        destination_amount: null,
+        destination_currency: null,
+        fee: 0,
+        market_rate: null,
+      };
+      if (type === 'exchange') {
+        const destination = Money.parse(destinationAmount, destinationCurrency);
+        if (!destination || destination.isZero()) {
+          throw new Error('Please enter the amount received');
+        }
+        const feeMoney = fee
+          ? Money.parse(fee, currency)
+          : Money.zero(currency);
+        if (!feeMoney) {
+          throw new Error('Please enter a valid fee');
+        }
+        if (currency === destinationCurrency) {
+          throw new Error('Please choose two different currencies');
+        }
+        exchangeFields = {
+          destination_amount: destination.toMajor(),
+          destination_currency: destinationCurrency,
+          fee: feeMoney.toMajor(),
+          market_rate: exchangeMarketRate,
+        };
+      }
+
+      // Lock the rate used for this transaction, so totals don't drift
+      // when stored rates change. Edits keep the conversion already locked
+      // unless something it depends on changed. One that can't be locked
+      // again is cleared, so totals convert it afresh instead of trusting
+      // a stale amount.
+      const overrideRate =
+        rateOverride && type !== 'exchange'
+          ? parseFloat(rateOverride)
+          : undefined;
+      const conversionChanged =
+        !transaction ||
+        transaction.base_currency === null ||
+        money.toMajor() !== transaction.amount ||
+        currency !== transaction.currency ||
+        date.getTime() !== new Date(transaction.date).getTime() ||
+        overrideRate !==
+          (transaction.rate_overridden
+            ? transaction.exchange_rate ?? undefined
+            : undefined);
+      let lockedConversion: Partial<TransactionInput> = {
+        base_currency: null,
+        exchange_rate: null,
+        converted_amount: null,
+        rate_overridden: false,
+      };
+      if (!conversionChanged) {
+        lockedConversion = {
+          base_currency: transaction.base_currency,
+          exchange_rate: transaction.exchange_rate,
+          converted_amount: transaction.converted_amount,
+          rate_overridden: transaction.rate_overridden,
+        };
+      } else {
+        try {
+          lockedConversion = await lockConversion(
+            money,
+            preferredCurrency,
+            date,
+            overrideRate
+          );
+        } catch (error) {
+          console.error('Error locking exchange rate:', error);
+        }
+      }
+
+      onSubmit({
+        amount: money.toMajor(),
+        description:
+          description || `${currency} → ${destinationCurrency} exchange`,
+        type,
+        category_id: type === 'exchange' ? null : category?.id ?? null,
+        currency,
+        date: date.toISOString(),
+        ...lockedConversion,
+        ...exchangeFields,
+      });
+
+      if (!transaction) resetForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>
+          {transaction ? 'Edit Transaction' : 'Add Transaction'}
+        </Text>
+        {onCancel && (
+          <TouchableOpacity onPress={onCancel} disabled={loading}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <View style={styles.form}>
+        {error && <Text style={styles.error}>{error}</Text>}
+
+        <View style={styles.amountContainer}>
+          <TouchableOpacity
+            onPress={() => setShowCurrencyPicker(!showCurrencyPicker)}
+            style={styles.currencySelector}
+          >
+            <Text style={styles.currencySymbol}>
+              {CURRENCIES[currency].symbol}
+            </Text>
+          </TouchableOpacity>
+          <TextInput
+            style={styles.amountInput}
+            placeholder={(0).toFixed(minorUnits)}
+            value={amount}
+            onChangeText={handleAmountChange}
+            keyboardType="decimal-pad"
+            placeholderTextColor="#94a3b8"
+            maxLength={10}
+          />
+        </View>
+
+        {showCurrencyPicker && (
+          <View style={styles.currencyPicker}>
+            <ScrollView
+              style={styles.categoryScroll}
+              showsVerticalScrollIndicator={false}
+            >
+              {currencies.map((c) => (
+                <TouchableOpacity
+                  key={c.code}
+                  style={styles.currencyOption}
+                  onPress={() => {
+                    selectCurrency(c.code);
+                    setShowCurrencyPicker(false);
+                  }}
+                >
+                  <Text style={styles.currencyOptionText}>
+                    {c.flag} {c.code} · {c.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+        )}
+
+        {currency !== preferredCurrency && type !== 'exchange' && (
+          <View style={styles.input}>
+            <Text style={styles.inputLabel}>
+              Exchange Rate (1 {currency} = ? {preferredCurrency})
+            </Text>
+            <TextInput
+              style={styles.inputText}
+              placeholder={
+                marketRate !== null ? formatRate(marketRate) : 'Enter rate'
+              }
+              value={rateOverride}
+              onChangeText={handleRateChange}
+              keyboardType="decimal-pad"
+              placeholderTextColor="#94a3b8"
+            />
+            <Text style={styles.rateHint}>
+              {rateOverride
+                ? 'Using your rate instead of the market rate'
+                : 'Market rate for this date. Enter the rate you were charged to override it.'}
+            </Text>
+            {parsedAmount && effectiveRate !== null && effectiveRate > 0 && (
+              <Text style={styles.rateHint}>
+                ≈{' '}
+                {formatAmount(
+                  parsedAmount
+                    .convert(effectiveRate, preferredCurrency)
+                    .toMajor(),
+                  preferredCurrency
+                )}
+              </Text>
+            )}
+          </View>
+        )}
+
+        <View style={styles.typeSelector}>
+          <TouchableOpacity
+            style={[
+              styles.typeButton,
+              type === 'expense' && styles.typeButtonActive,
+            ]}
+            onPress={() => setType('expense')}
+          >
+            <Text
+              style={[
+                styles.typeButtonText,
+                type === 'expense' && styles.typeButtonTextActive,
+              ]}
+            >
+              Expense
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.typeButton,
+              type === 'income' && styles.typeButtonActive,
+            ]}
+            onPress={() => setType('income')}
+          >
+            <Text
+              style={[
+                styles.typeButtonText,
+                type === 'income' && styles.typeButtonTextActive,
+              ]}
+            >
+              Income
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.typeButton,
+              type === 'exchange' && styles.typeButtonActive,
+            ]}
+            onPress={() => setType('exchange')}
+          >
+            <Text
+              style={[
+                styles.typeButtonText,
+                type === 'exchange' && styles.typeButtonTextActive,
+              ]}
+            >
+              Exchange
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {type === 'exchange' && (
+          <>
+            <View style={styles.input}>
+              <Text style={styles.inputLabel}>Received</Text>
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                style={styles.destinationPicker}
+              >
+                {currencies
+                  .filter((c) => c.code !== currency)
+                  .map((c) => (
+                    <TouchableOpacity
+                      key={c.code}
+                      style={[
+                        styles.chip,
+                        destinationCurrency === c.code && styles.chipActive,
+                      ]}
+                      onPress={() => {
+                        setDestinationCurrency(c.code);
+                        setDestinationAmount('');
+                      }}
+                    >
+                      <Text
+                        style={[
+                          styles.chipText,
+                          destinationCurrency === c.code &&
+                            styles.chipTextActive,
+                        ]}
+                      >
+                        {c.flag} {c.code}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+              </ScrollView>
+              <TextInput
+                style={styles.inputText}
+                placeholder={(0).toFixed(
+                  CURRENCIES[destinationCurrency].minorUnits
+                )}
+                value={destinationAmount}
+                onChangeText={handleDestinationAmountChange}
+                keyboardType="decimal-pad"
+                placeholderTextColor="#94a3b8"
+              />
+            </View>
+
+            <View style={styles.input}>
+              <Text style={styles.inputLabel}>Fee ({currency})</Text>
+              <TextInput
+                style={styles.inputText}
+                placeholder={(0).toFixed(minorUnits)}
+                value={fee}
+                onChangeText={handleFeeChange}
+                keyboardType="decimal-pad"
+                placeholderTextColor="#94a3b8"
+              />
+            </View>
+
+            {exchangeSummary && (
+              <View style={styles.input}>
+                <Text style={styles.inputLabel}>Effective Rate</Text>
+                <Text style={styles.inputText}>
+                  1 {currency} = {formatRate(exchangeSummary.effectiveRate)}{' '}
+                  {destinationCurrency}
+                </Text>
+                {exchangeSummary.marketRate !== null &&
+                  exchangeSummary.spread !== null && (
+                    <Text style={styles.rateHint}>
+                      Market rate {formatRate(exchangeSummary.marketRate)} (
+                      {exchangeSummary.spread > 0 ? '+' : ''}
+                      {formatRate(Number(exchangeSummary.spread.toFixed(2)))}%)
+                    </Text>
+                  )}
+                {exchangeSummary.cost && (
+                  <Text style={styles.rateHint}>
+                    {exchangeSummary.cost.isNegative()
+                      ? 'Gained '
+                      : 'Cost vs market rate: '}
+                    {formatAmount(
+                      Math.abs(exchangeSummary.cost.toMajor()),
+                      currency
+                    )}
+                  </Text>
+                )}
+              </View>
+            )}
+          </>
+        )}
+
+        {type !== 'exchange' && (
+          <TouchableOpacity
+            style={styles.input}
+            onPress={() => setShowCategoryPicker(!showCategoryPicker)}
+          >
+            <Text style={styles.inputLabel}>Category</Text>
+            <View style={styles.inputContent}>
+              <View style={styles.categoryDisplay}>
+                {category && (
+                  <View
+                    style={[
+                      styles.categoryIndicator,
+                      { backgroundColor: category.color },
+                    ]}
+                  />
+                )}
+                <Text style={styles.inputText}>
+                  {category?.name || 'Select category'}
+                </Text>
+              </View>
+              <ChevronDown size={20} color="#64748b" />
+            </View>
+          </TouchableOpacity>
+        )}
+
+        {showCategoryPicker && type !== 'exchange' && (
+          <View style={styles.categoryPicker}>
+            <ScrollView
+              style={styles.categoryScroll}
+              showsVerticalScrollIndicator={false}
+            >
+              {categories.map((cat) => (
+                <TouchableOpacity
+                  key={cat.id}
+                  style={styles.categoryOption}
+                  onPress={() => {
+                    setCategory(cat);
+                    setShowCategoryPicker(false);
+                  }}
+                >
+                  <View style={styles.categoryOptionContent}>
+                    <View
+                      style={[
+                        styles.categoryIndicator,
+                        { backgroundColor: cat.color },
+                      ]}
+                    />
+                    <Text style={styles.categoryOptionText}>{cat.name}</Text>
+                  </View>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+        )}
+
+        <TouchableOpacity
+          style={styles.input}
+          onPress={() => {
+            if (Platform.OS === 'ios') {
+              setShowDatePicker(true);
+            } else {
+              setShowDatePicker(true);
+            }
+          }}
+        >
+          <Text style={styles.inputLabel}>Date</Text>
+          <View style={styles.inputContent}>
+            <Calendar size={20} color="#64748b" />
+            <Text style={styles.inputText}>
+              {format(date, 'EEEE, MMMM d, yyyy')}
+            </Text>
+          </View>
+        </TouchableOpacity>
+
+        {Platform.OS === 'ios' && showDatePicker && (
+          <View style={styles.datePickerContainer}>
+            <View style={styles.datePickerHeader}>
+              <TouchableOpacity
+                onPress={() => setShowDatePicker(false)}
+                style={styles.datePickerButton}
+              >
+                <Text style={styles.datePickerButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => setShowDatePicker(false)}
+                style={styles.datePickerButton}
+              >
+                <Text
+                  style={[
+                    styles.datePickerButtonText,
+                    styles.datePickerDoneText,
+                  ]}
+                >
+                  Done
+                </Text>
+              </TouchableOpacity>
+            </View>
+            <DateTimePicker
+              value={date}
+              mode="date"
+              display="spinner"
+              onChange={(event, selectedDate) => {
+                if (selectedDate) {
+                  setDate(selectedDate);
+                }
+              }}
+              style={styles.datePickerIOS}
+            />
+          </View>
+        )}
+
+        {Platform.OS === 'android' && showDatePicker && (
+          <DateTimePicker
+            value={date}
+            mode="date"
+            display="default"
+            onChange={(event, selectedDate) => {
+              setShowDatePicker(false);
+              if (selectedDate) {
+                setDate(selectedDate);
+              }
+            }}
+          />
+        )}
+
+        <View style={styles.input}>
+          <Text style={styles.inputLabel}>Description</Text>
+          <TextInput
+            style={styles.descriptionInput}
+            placeholder="Enter description"
+            value={description}
+            onChangeText={setDescription}
+            multiline
+            numberOfLines={3}
+            placeholderTextColor="#94a3b8"
+          />
+        </View>
+
+        <TouchableOpacity
+          style={[styles.button, loading && styles.buttonDisabled]}
+          onPress={handleSubmit}
+          disabled={loading}
+        >
+          <Text style={styles.buttonText}>
+            {transaction
+              ? loading
+                ? 'Saving...'
+                : 'Save Changes'
+              : loading
+              ? 'Adding...'
+              : 'Add Transaction'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  categoryPicker: {
+    position: 'absolute',
+    top: 250,
+    left: 20,
+    right: 20,
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 8,
+    zIndex: 1000,
+    elevation: 5,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 3.84,
+    maxHeight: 200,
+  },
+  categoryScroll: {
+    flexGrow: 0,
+  },
+  categoryOption: {
+    padding: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  categoryOptionContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  categoryIndicator: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginRight: 8,
+  },
+  categoryDisplay: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  categoryOptionText: {
+    fontSize: 16,
+    color: '#0f172a',
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  header: {
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    height: 60,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#0f172a',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#64748b',
+  },
+  form: {
+    padding: 20,
+  },
+  amountContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20,
+  },
+  amountInput: {
+    flex: 1,
+    fontSize: 32,
+    marginLeft: 8,
+    color: '#0f172a',
+  },
+  typeSelector: {
+    flexDirection: 'row',
+    backgroundColor: '#f1f5f9',
+    borderRadius: 12,
+    padding: 4,
+    marginBottom: 20,
+  },
+  typeButton: {
+    flex: 1,
+    paddingVertical: 12,
+    alignItems: 'center',
+    borderRadius: 8,
+  },
+  typeButtonActive: {
+    backgroundColor: '#fff',
+  },
+  typeButtonText: {
+    fontSize: 16,
+    color: '#64748b',
+  },
+  typeButtonTextActive: {
+    color: '#0f172a',
+    fontWeight: '600',
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  inputLabel: {
+    fontSize: 14,
+    color: '#64748b',
+    marginBottom: 8,
+  },
+  inputContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  inputText: {
+    fontSize: 16,
+    color: '#0f172a',
+  },
+  destinationPicker: {
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#f1f5f9',
+    marginRight: 8,
+  },
+  chipActive: {
+    backgroundColor: '#0891b2',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#0f172a',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  rateHint: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 8,
+  },
+  descriptionInput: {
+    fontSize: 16,
+    color: '#0f172a',
+    height: 80,
+    textAlignVertical: 'top',
+  },
+  button: {
+    backgroundColor: '#0891b2',
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  error: {
+    color: '#ef4444',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+
+  // Add to styles
+  currencySelector: {
+    paddingHorizontal: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    lineHeight: 0,
+    marginTop: 2,
+  },
+  currencySymbol: {
+    fontSize: 20,
+    color: '#64748b',
+    fontWeight: '500',
+  },
+  currencyPicker: {
+    position: 'absolute',
+    top: 90,
+    left: 20,
+    right: 20,
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 8,
+    zIndex: 1000,
+    elevation: 5,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 3.84,
+    maxHeight: 240,
+  },
+  currencyOption: {
+    padding: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  currencyOptionText: {
+    fontSize: 16,
+    color: '#0f172a',
+  },
+  datePickerContainer: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 12,
+    borderTopRightRadius: 12,
+    borderTopWidth: 1,
+    borderColor: '#e5e7eb',
+    zIndex: 1000,
+    elevation: 5,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: -2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 3.84,
+  },
+  datePickerHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  datePickerButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  datePickerButtonText: {
+    fontSize: 16,
+    color: '#0891b2',
+    fontWeight: '500',
+  },
+  datePickerDoneText: {
+    fontWeight: '600',
+  },
+  datePickerIOS: {
+    height: 200,
+    width: '100%',
+  },
+});
@@ -0,0 +1,124 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useRef,
+} from 'react';
+import { supabase } from './supabase';
+import {
+  DEFAULT_USER_SETTINGS,
+  UserSettings,
+  getUserSettings,
+  loadCachedUserSettings,
+  saveCachedUserSettings,
+} from './data';
+
+interface UserSettingsContextType {
+  // The signed-in user, null when signed out
+  userId: string | null;
+  settings: UserSettings;
+  // Apply changes that were saved to the users row
+  updateSettings: (changes: Partial<UserSettings>) => void;
+  loading: boolean;
+}
+
+const UserSettingsContext = createContext<UserSettingsContextType | undefined>(
+  undefined
+);
+
+/**
+ * Loads the signed-in user's settings whenever the session changes hands:
+ * on start, sign-in and account switches. Signing out resets them to the
+ * defaults. Each user's settings are cached on the device, so an offline
+ * start still has them.
+ */
+export function UserSettingsProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [settings, setSettings] = useState<UserSettings>(DEFAULT_USER_SETTINGS);
+  const [loading, setLoading] = useState(true);
+  // Undefined until the initial session is known. Loads finishing after
+  // the user changed again are dropped.
+  const currentUserId = useRef<string | null | undefined>(undefined);
+  // Set once the cached settings are loaded, so they aren't overwritten
+  // with the defaults first
+  const loadedUserId = useRef<string | null>(null);
+
+  useEffect(() => {
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((_event, session) => {
+      const nextUserId = session?.user.id ?? null;
+      // Token refreshes and profile updates keep the same user
+      if (nextUserId === currentUserId.current) return;
+
+      currentUserId.current = nextUserId;
+      setUserId(nextUserId);
+      setSettings(DEFAULT_USER_SETTINGS);
+
+      if (!nextUserId) {
+        setLoading(false);
+        return;
+      }
+      // Querying from inside the callback can deadlock the auth client,
+      // so load once it has returned
+      setLoading(true);
+      setTimeout(() => loadSettings(nextUserId), 0);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    if (!userId || loadedUserId.current !== userId) return;
+    saveCachedUserSettings(userId, settings);
+  }, [settings]);
+
+  async function loadSettings(forUserId: string) {
+    const cached = await loadCachedUserSettings(forUserId);
+    if (currentUserId.current !== forUserId) return;
+
+    if (cached) {
+      setSettings(cached);
+      setLoading(false);
+    }
+    loadedUserId.current = forUserId;
+
+    try {
+      const loaded = await getUserSettings(forUserId);
+      if (currentUserId.current !== forUserId) return;
+
+      setSettings(loaded);
+    } catch (error) {
+      console.error('Error loading user settings:', error);
+    } finally {
+      if (currentUserId.current === forUserId) setLoading(false);
+    }
+  }
+
+  function updateSettings(changes: Partial<UserSettings>) {
+    setSettings((current) => ({ ...current, ...changes }));
+  }
+
+  return (
+    <UserSettingsContext.Provider
+      value={{ userId, settings, updateSettings, loading }}
+    >
+      {children}
+    </UserSettingsContext.Provider>
+  );
+}
+
+export function useUserSettings() {
+  const context = useContext(UserSettingsContext);
+  if (context === undefined) {
+    throw new Error(
+      'useUserSettings must be used within a UserSettingsProvider'
+    );
+  }
+  return context;
+}
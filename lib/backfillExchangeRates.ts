@@ -0,0 +1,86 @@
+import {
+  BASE_CURRENCY,
+  Currency,
+  loadStoredBaseRates,
+  refreshBaseRates,
+  toDateKey,
+  waitForApiSlot,
+} from './currency';
+import { QuoteRates } from './exchangeRateProvider';
+import { listTransactionAmounts } from './data';
+
+export type BackfillProgress = {
+  total: number;
+  done: number;
+  failed: number;
+};
+
+/**
+ * Fill in historical exchange rates for every existing transaction.
+ *
+ * For each transaction date, base rates are needed for the preferred
+ * currency and every currency the user has transactions in. Dates missing
+ * any of those, or holding only a backfilled estimate, are fetched again
+ * from the provider.
+ */
+export async function backfillExchangeRates(
+  preferredCurrency: Currency,
+  onProgress?: (progress: BackfillProgress) => void
+): Promise<BackfillProgress> {
+  const transactions = await listTransactionAmounts();
+
+  const currencies = new Set<Currency>(transactions.map((t) => t.currency));
+  currencies.add(preferredCurrency);
+
+  currencies.delete(BASE_CURRENCY);
+
+  // Base rates needed per transaction date
+  const needed = new Map<string, Set<Currency>>();
+  transactions.forEach((t) => {
+    if (!t.date) return;
+    const date = toDateKey(new Date(t.date));
+    if (!needed.has(date)) needed.set(date, new Set(currencies));
+  });
+
+  // Skip currencies that already have a real (non-backfilled) rate
+  const dates = Array.from(needed.keys());
+  if (dates.length > 0 && currencies.size > 0) {
+    const stored = await loadStoredBaseRates(Array.from(currencies), dates);
+    stored
+      .filter((row) => !row.is_backfilled)
+      .forEach((row) => {
+        needed.get(row.date)?.delete(row.to_currency as Currency);
+      });
+  }
+  dates
+    .filter((date) => needed.get(date)!.size === 0)
+    .forEach((date) => needed.delete(date));
+
+  const progress: BackfillProgress = {
+    total: needed.size,
+    done: 0,
+    failed: 0,
+  };
+  onProgress?.({ ...progress });
+
+  // Fetch one date at a time so the rate limiter is respected
+  for (const [date, missing] of needed.entries()) {
+    let rates: QuoteRates = {};
+    try {
+      await waitForApiSlot();
+      // The refresh function stores the rates, or estimates from the
+      // nearest earlier date if the API has none
+      rates = await refreshBaseRates(new Date(date));
+    } catch (error) {
+      console.error(`Error backfilling rates on ${date}:`, error);
+    }
+
+    if (Array.from(missing).some((currency) => !rates[currency])) {
+      progress.failed += 1;
+    }
+    progress.done += 1;
+    onProgress?.({ ...progress });
+  }
+
+  return progress;
+}
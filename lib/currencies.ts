@@ -0,0 +1,1292 @@
+/**
+ * ISO 4217 currency registry. Every currency the app can record, convert or
+ * display is listed here, along with what's needed to format and pick it.
+ */
+
+export const CURRENCY_CODES = [
+  'AED',
+  'AFN',
+  'ALL',
+  'AMD',
+  'ANG',
+  'AOA',
+  'ARS',
+  'AUD',
+  'AWG',
+  'AZN',
+  'BAM',
+  'BBD',
+  'BDT',
+  'BGN',
+  'BHD',
+  'BIF',
+  'BMD',
+  'BND',
+  'BOB',
+  'BRL',
+  'BSD',
+  'BTN',
+  'BWP',
+  'BYN',
+  'BZD',
+  'CAD',
+  'CDF',
+  'CHF',
+  'CLP',
+  'CNY',
+  'COP',
+  'CRC',
+  'CUP',
+  'CVE',
+  'CZK',
+  'DJF',
+  'DKK',
+  'DOP',
+  'DZD',
+  'EGP',
+  'ERN',
+  'ETB',
+  'EUR',
+  'FJD',
+  'FKP',
+  'GBP',
+  'GEL',
+  'GHS',
+  'GIP',
+  'GMD',
+  'GNF',
+  'GTQ',
+  'GYD',
+  'HKD',
+  'HNL',
+  'HTG',
+  'HUF',
+  'IDR',
+  'ILS',
+  'INR',
+  'IQD',
+  'IRR',
+  'ISK',
+  'JMD',
+  'JOD',
+  'JPY',
+  'KES',
+  'KGS',
+  'KHR',
+  'KMF',
+  'KPW',
+  'KRW',
+  'KWD',
+  'KYD',
+  'KZT',
+  'LAK',
+  'LBP',
+  'LKR',
+  'LRD',
+  'LSL',
+  'LYD',
+  'MAD',
+  'MDL',
+  'MGA',
+  'MKD',
+  'MMK',
+  'MNT',
+  'MOP',
+  'MRU',
+  'MUR',
+  'MVR',
+  'MWK',
+  'MXN',
+  'MYR',
+  'MZN',
+  'NAD',
+  'NGN',
+  'NIO',
+  'NOK',
+  'NPR',
+  'NZD',
+  'OMR',
+  'PAB',
+  'PEN',
+  'PGK',
+  'PHP',
+  'PKR',
+  'PLN',
+  'PYG',
+  'QAR',
+  'RON',
+  'RSD',
+  'RUB',
+  'RWF',
+  'SAR',
+  'SBD',
+  'SCR',
+  'SDG',
+  'SEK',
+  'SGD',
+  'SHP',
+  'SLE',
+  'SOS',
+  'SRD',
+  'SSP',
+  'STN',
+  'SVC',
+  'SYP',
+  'SZL',
+  'THB',
+  'TJS',
+  'TMT',
+  'TND',
+  'TOP',
+  'TRY',
+  'TTD',
+  'TWD',
+  'TZS',
+  'UAH',
+  'UGX',
+  'USD',
+  'UYU',
+  'UZS',
+  'VES',
+  'VND',
+  'VUV',
+  'WST',
+  'XAF',
+  'XCD',
+  'XOF',
+  'XPF',
+  'YER',
+  'ZAR',
+  'ZMW',
+  'ZWG',
+] as const;
+
+export type Currency = (typeof CURRENCY_CODES)[number];
+
+export type CurrencyInfo = {
+  code: Currency;
+  name: string;
+  symbol: string;
+  // Number of digits after the decimal point, e.g. 2 for USD, 3 for KWD
+  minorUnits: number;
+  flag: string;
+};
+
+export const CURRENCIES: Record<Currency, CurrencyInfo> = {
+  AED: {
+    code: 'AED',
+    name: 'United Arab Emirates Dirham',
+    symbol: 'د.إ',
+    minorUnits: 2,
+    flag: '🇦🇪',
+  },
+  AFN: {
+    code: 'AFN',
+    name: 'Afghan Afghani',
+    symbol: '؋',
+    minorUnits: 2,
+    flag: '🇦🇫',
+  },
+  ALL: {
+    code: 'ALL',
+    name: 'Albanian Lek',
+    symbol: 'ALL',
+    minorUnits: 2,
+    flag: '🇦🇱',
+  },
+  AMD: {
+    code: 'AMD',
+    name: 'Armenian Dram',
+    symbol: '֏',
+    minorUnits: 2,
+    flag: '🇦🇲',
+  },
+  ANG: {
+    code: 'ANG',
+    name: 'Netherlands Antillean Guilder',
+    symbol: 'ANG',
+    minorUnits: 2,
+    flag: '🇨🇼',
+  },
+  AOA: {
+    code: 'AOA',
+    name: 'Angolan Kwanza',
+    symbol: 'Kz',
+    minorUnits: 2,
+    flag: '🇦🇴',
+  },
+  ARS: {
+    code: 'ARS',
+    name: 'Argentine Peso',
+    symbol: '$',
+    minorUnits: 2,
+    flag: '🇦🇷',
+  },
+  AUD: {
+    code: 'AUD',
+    name: 'Australian Dollar',
+    symbol: '$',
+    minorUnits: 2,
+    flag: '🇦🇺',
+  },
+  AWG: {
+    code: 'AWG',
+    name: 'Aruban Florin',
+    symbol: 'AWG',
+    minorUnits: 2,
+    flag: '🇦🇼',
+  },
+  AZN: {
+    code: 'AZN',
+    name: 'Azerbaijani Manat',
+    symbol: '₼',
+    minorUnits: 2,
+    flag: '🇦🇿',
+  },
+  BAM: {
+    code: 'BAM',
+    name: 'Bosnia-Herzegovina Convertible Mark',
+    symbol: 'KM',
+    minorUnits: 2,
+    flag: '🇧🇦',
+  },
+  BBD: {
+    code: 'BBD',
+    name: 'Barbadian Dollar',
+    symbol: '$',
+    minorUnits: 2,
+    flag: '🇧🇧',
+  },
+  BDT: {
+    code: 'BDT',
+    name: 'Bangladeshi Taka',
+    symbol: '৳',
+    minorUnits: 2,
+    flag: '🇧🇩',
+  },
+  BGN: {
+    code: 'BGN',
+    name: 'Bulgarian Lev',
+    symbol: 'BGN',
+    minorUnits: 2,
+    flag: '🇧🇬',
+  },
+  BHD: {
+    code: 'BHD',
+    name: 'Bahraini Dinar',
+    symbol: 'د.ب',
+    minorUnits: 3,
+    flag: '🇧🇭',
+  },
+  BIF: {
+    code: 'BIF',
+    name: 'Burundian Franc',
+    symbol: 'BIF',
+    minorUnits: 0,
+    flag: '🇧🇮',
+  },
+  BMD: {
+    code: 'BMD',
+    name: 'Bermudan Dollar',
+    symbol: '$',
+    minorUnits: 2,
+    flag: '🇧🇲',
+  },
+  BND: {
+    code: 'BND',
+    name: 'Brunei Dollar',
+    symbol: '$',
+    minorUnits: 2,
+    flag: '🇧🇳',
+  },
+  BOB: {
+    code: 'BOB',
+    name: 'Bolivian Boliviano',
+    symbol: 'Bs',
+    minorUnits: 2,
+    flag: '🇧🇴',
+  },
+  BRL: {
+    code: 'BRL',
+    name: 'Brazilian Real',
+    symbol: 'R$',
+    minorUnits: 2,
+    flag: '🇧🇷',
+  },
+  BSD: {
+    code: 'BSD',
+    name: 'Bahamian Dollar',
+    symbol: '$',
+    minorUnits: 2,
+    flag: '🇧🇸',
+  },
+  BTN: {
+    code: 'BTN',
+    name: 'Bhutanese Ngultrum',
+    symbol: 'BTN',
+    minorUnits: 2,
+    flag: '🇧🇹',
+  },
+  BWP: {
+    code: 'BWP',
+    name: 'Botswanan Pula',
+    symbol: 'P',
+    minorUnits: 2,
+    flag: '🇧🇼',
+  },
+  BYN: {
+    code: 'BYN',
+    name: 'Belarusian Ruble',
+    symbol: 'BYN',
+    minorUnits: 2,
+    flag: '🇧🇾',
+  },
+  BZD: {
+    code: 'BZD',
+    name: 'Belize Dollar',
+    symbol: '$',
+    minorUnits: 2,
+    flag: '🇧🇿',
+  },
+  CAD: {
+    code: 'CAD',
+    name: 'Canadian Dollar',
+    symbol: '$',
+    minorUnits: 2,
+    flag: '🇨🇦',
+  },
+  CDF: {
+    code: 'CDF',
+    name: 'Congolese Franc',
+    symbol: 'CDF',
+    minorUnits: 2,
+    flag: '🇨🇩',
+  },
+  CHF: {
+    code: 'CHF',
+    name: 'Swiss Franc',
+    symbol: 'CHF',
+    minorUnits: 2,
+    flag: '🇨🇭',
+  },
+  CLP: {
+    code: 'CLP',
+    name: 'Chilean Peso',
+    symbol: '$',
+    minorUnits: 0,
+    flag: '🇨🇱',
+  },
+  CNY: {
+    code: 'CNY',
+    name: 'Chinese Yuan',
+    symbol: '¥',
+    minorUnits: 2,
+    flag: '🇨🇳',
+  },
+  COP: {
+    code: 'COP',
+    name: 'Colombian Peso',
+    symbol: '$',
+    minorUnits: 2,
+    flag: '🇨🇴',
+  },
+  CRC: {
+    code: 'CRC',
+    name: 'Costa Rican Colón',
+    symbol: '₡',
+    minorUnits: 2,
+    flag: '🇨🇷',
+  },
+  CUP: {
+    code: 'CUP',
+    name: 'Cuban Peso',
+    symbol: '$',
+    minorUnits: 2,
+    flag: '🇨🇺',
+  },
+  CVE: {
+    code: 'CVE',
+    name: 'Cape Verdean Escudo',
+    symbol: 'CVE',
+    minorUnits: 2,
+    flag: '🇨🇻',
+  },
+  CZK: {
+    code: 'CZK',
+    name: 'Czech Koruna',
+    symbol: 'Kč',
+    minorUnits: 2,
+    flag: '🇨🇿',
+  },
+  DJF: {
+    code: 'DJF',
+    name: 'Djiboutian Franc',
+    symbol: 'DJF',
+    minorUnits: 0,
+    flag: '🇩🇯',
+  },
+  DKK: {
+    code: 'DKK',
+    name: 'Danish Krone',
+    symbol: 'kr',
+    minorUnits: 2,
+    flag: '🇩🇰',
+  },
+  DOP: {
+    code: 'DOP',
+    name: 'Dominican Peso',
+    symbol: '$',
+    minorUnits: 2,
+    flag: '🇩🇴',
+  },
+  DZD: {
+    code: 'DZD',
+    name: 'Algerian Dinar',
+    symbol: 'DZD',
+    minorUnits: 2,
+    flag: '🇩🇿',
+  },
+  EGP: {
+    code: 'EGP',
+    name: 'Egyptian Pound',
+    symbol: 'E£',
+    minorUnits: 2,
+    flag: '🇪🇬',
+  },
+  ERN: {
+    code: 'ERN',
+    name: 'Eritrean Nakfa',
+    symbol: 'ERN',
+    minorUnits: 2,
+    flag: '🇪🇷',
+  },
+  ETB: {
+    code: 'ETB',
+    name: 'Ethiopian Birr',
+    symbol: 'ETB',
+    minorUnits: 2,
+    flag: '🇪🇹',
+  },
+  EUR: {
+    code: 'EUR',
+    name: 'Euro',
+    symbol: '€',
+    minorUnits: 2,
+    flag: '🇪🇺',
+  },
+  FJD: {
+    code: 'FJD',
+    name: 'Fijian Dollar',
+    symbol: '$',
+    minorUnits: 2,
+    flag: '🇫🇯',
+  },
+  FKP: {
+    code: 'FKP',
+    name: 'Falkland Islands Pound',
+    symbol: '£',
+    minorUnits: 2,
+    flag: '🇫🇰',
+  },
+  GBP: {
+    code: 'GBP',
+    name: 'British Pound',
+    symbol: '£',
+    minorUnits: 2,
+    flag: '🇬🇧',
+  },
+  GEL: {
+    code: 'GEL',
+    name: 'Georgian Lari',
+    symbol: '₾',
+    minorUnits: 2,
+    flag: '🇬🇪',
+  },
+  GHS: {
+    code: 'GHS',
+    name: 'Ghanaian Cedi',
+    symbol: 'GH₵',
+    minorUnits: 2,
+    flag: '🇬🇭',
+  },
+  GIP: {
+    code: 'GIP',
+    name: 'Gibraltar Pound',
+    symbol: '£',
+    minorUnits: 2,
+    flag: '🇬🇮',
+  },
+  GMD: {
+    code: 'GMD',
+    name: 'Gambian Dalasi',
+    symbol: 'GMD',
+    minorUnits: 2,
+    flag: '🇬🇲',
+  },
+  GNF: {
+    code: 'GNF',
+    name: 'Guinean Franc',
+    symbol: 'FG',
+    minorUnits: 0,
+    flag: '🇬🇳',
+  },
+  GTQ: {
+    code: 'GTQ',
+    name: 'Guatemalan Quetzal',
+    symbol: 'Q',
+    minorUnits: 2,
+    flag: '🇬🇹',
+  },
+  GYD: {
+    code: 'GYD',
+    name: 'Guyanaese Dollar',
+    symbol: '$',
+    minorUnits: 2,
+    flag: '🇬🇾',
+  },
+  HKD: {
+    code: 'HKD',
+    name: 'Hong Kong Dollar',
+    symbol: '$',
+    minorUnits: 2,
+    flag: '🇭🇰',
+  },
+  HNL: {
+    code: 'HNL',
+    name: 'Honduran Lempira',
+    symbol: 'L',
+    minorUnits: 2,
+    flag: '🇭🇳',
+  },
+  HTG: {
+    code: 'HTG',
+    name: 'Haitian Gourde',
+    symbol: 'HTG',
+    minorUnits: 2,
+    flag: '🇭🇹',
+  },
+  HUF: {
+    code: 'HUF',
+    name: 'Hungarian Forint',
+    symbol: 'Ft',
+    minorUnits: 2,
+    flag: '🇭🇺',
+  },
+  IDR: {
+    code: 'IDR',
+    name: 'Indonesian Rupiah',
+    symbol: 'Rp',
+    minorUnits: 2,
+    flag: '🇮🇩',
+  },
+  ILS: {
+    code: 'ILS',
+    name: 'Israeli New Shekel',
+    symbol: '₪',
+    minorUnits: 2,
+    flag: '🇮🇱',
+  },
+  INR: {
+    code: 'INR',
+    name: 'Indian Rupee',
+    symbol: '₹',
+    minorUnits: 2,
+    flag: '🇮🇳',
+  },
+  IQD: {
+    code: 'IQD',
+    name: 'Iraqi Dinar',
+    symbol: 'IQD',
+    minorUnits: 3,
+    flag: '🇮🇶',
+  },
+  IRR: {
+    code: 'IRR',
+    name: 'Iranian Rial',
+    symbol: 'IRR',
+    minorUnits: 2,
+    flag: '🇮🇷',
+  },
+  ISK: {
+    code: 'ISK',
+    name: 'Icelandic Króna',
+    symbol: 'kr',
+    minorUnits: 0,
+    flag: '🇮🇸',
+  },
+  JMD: {
+    code: 'JMD',
+    name: 'Jamaican Dollar',
+    symbol: '$',
+    minorUnits: 2,
+    flag: '🇯🇲',
+  },
+  JOD: {
+    code: 'JOD',
+    name: 'Jordanian Dinar',
+    symbol: 'د.ا',
+    minorUnits: 3,
+    flag: '🇯🇴',
+  },
+  JPY: {
+    code: 'JPY',
+    name: 'Japanese Yen',
+    symbol: '¥',
+    minorUnits: 0,
+    flag: '🇯🇵',
+  },
+  KES: {
+    code: 'KES',
+    name: 'Kenyan Shilling',
+    symbol: 'KES',
+    minorUnits: 2,
+    flag: '🇰🇪',
+  },
+  KGS: {
+    code: 'KGS',
+    name: 'Kyrgystani Som',
+    symbol: '⃀',
+    minorUnits: 2,
+    flag: '🇰🇬',
+  },
+  KHR: {
+    code: 'KHR',
+    name: 'Cambodian Riel',
+    symbol: '៛',
+    minorUnits: 2,
+    flag: '🇰🇭',
+  },
+  KMF: {
+    code: 'KMF',
+    name: 'Comorian Franc',
+    symbol: 'CF',
+    minorUnits: 0,
+    flag: '🇰🇲',
+  },
+  KPW: {
+    code: 'KPW',
+    name: 'North Korean Won',
+    symbol: '₩',
+    minorUnits: 2,
+    flag: '🇰🇵',
+  },
+  KRW: {
+    code: 'KRW',
+    name: 'South Korean Won',
+    symbol: '₩',
+    minorUnits: 0,
+    flag: '🇰🇷',
+  },
+  KWD: {
+    code: 'KWD',
+    name: 'Kuwaiti Dinar',
+    symbol: 'د.ك',
+    minorUnits: 3,
+    flag: '🇰🇼',
+  },
+  KYD: {
+    code: 'KYD',
+    name: 'Cayman Islands Dollar',
+    symbol: '$',
+    minorUnits: 2,
+    flag: '🇰🇾',
+  },
+  KZT: {
+    code: 'KZT',
+    name: 'Kazakhstani Tenge',
+    symbol: '₸',
+    minorUnits: 2,
+    flag: '🇰🇿',
+  },
+  LAK: {
+    code: 'LAK',
+    name: 'Laotian Kip',
+    symbol: '₭',
+    minorUnits: 2,
+    flag: '🇱🇦',
+  },
+  LBP: {
+    code: 'LBP',
+    name: 'Lebanese Pound',
+    symbol: 'L£',
+    minorUnits: 2,
+    flag: '🇱🇧',
+  },
+  LKR: {
+    code: 'LKR',
+    name: 'Sri Lankan Rupee',
+    symbol: 'Rs',
+    minorUnits: 2,
+    flag: '🇱🇰',
+  },
+  LRD: {
+    code: 'LRD',
+    name: 'Liberian Dollar',
+    symbol: '$',
+    minorUnits: 2,
+    flag: '🇱🇷',
+  },
+  LSL: {
+    code: 'LSL',
+    name: 'Lesotho Loti',
+    symbol: 'LSL',
+    minorUnits: 2,
+    flag: '🇱🇸',
+  },
+  LYD: {
+    code: 'LYD',
+    name: 'Libyan Dinar',
+    symbol: 'LYD',
+    minorUnits: 3,
+    flag: '🇱🇾',
+  },
+  MAD: {
+    code: 'MAD',
+    name: 'Moroccan Dirham',
+    symbol: 'MAD',
+    minorUnits: 2,
+    flag: '🇲🇦',
+  },
+  MDL: {
+    code: 'MDL',
+    name: 'Moldovan Leu',
+    symbol: 'MDL',
+    minorUnits: 2,
+    flag: '🇲🇩',
+  },
+  MGA: {
+    code: 'MGA',
+    name: 'Malagasy Ariary',
+    symbol: 'Ar',
+    minorUnits: 2,
+    flag: '🇲🇬',
+  },
+  MKD: {
+    code: 'MKD',
+    name: 'Macedonian Denar',
+    symbol: 'MKD',
+    minorUnits: 2,
+    flag: '🇲🇰',
+  },
+  MMK: {
+    code: 'MMK',
+    name: 'Myanmar Kyat',
+    symbol: 'K',
+    minorUnits: 2,
+    flag: '🇲🇲',
+  },
+  MNT: {
+    code: 'MNT',
+    name: 'Mongolian Tugrik',
+    symbol: '₮',
+    minorUnits: 2,
+    flag: '🇲🇳',
+  },
+  MOP: {
+    code: 'MOP',
+    name: 'Macanese Pataca',
+    symbol: 'MOP',
+    minorUnits: 2,
+    flag: '🇲🇴',
+  },
+  MRU: {
+    code: 'MRU',
+    name: 'Mauritanian Ouguiya',
+    symbol: 'MRU',
+    minorUnits: 2,
+    flag: '🇲🇷',
+  },
+  MUR: {
+    code: 'MUR',
+    name: 'Mauritian Rupee',
+    symbol: 'Rs',
+    minorUnits: 2,
+    flag: '🇲🇺',
+  },
+  MVR: {
+    code: 'MVR',
+    name: 'Maldivian Rufiyaa',
+    symbol: 'MVR',
+    minorUnits: 2,
+    flag: '🇲🇻',
+  },
+  MWK: {
+    code: 'MWK',
+    name: 'Malawian Kwacha',
+    symbol: 'MWK',
+    minorUnits: 2,
+    flag: '🇲🇼',
+  },
+  MXN: {
+    code: 'MXN',
+    name: 'Mexican Peso',
+    symbol: '$',
+    minorUnits: 2,
+    flag: '🇲🇽',
+  },
+  MYR: {
+    code: 'MYR',
+    name: 'Malaysian Ringgit',
+    symbol: 'RM',
+    minorUnits: 2,
+    flag: '🇲🇾',
+  },
+  MZN: {
+    code: 'MZN',
+    name: 'Mozambican Metical',
+    symbol: 'MZN',
+    minorUnits: 2,
+    flag: '🇲🇿',
+  },
+  NAD: {
+    code: 'NAD',
+    name: 'Namibian Dollar',
+    symbol: '$',
+    minorUnits: 2,
+    flag: '🇳🇦',
+  },
+  NGN: {
+    code: 'NGN',
+    name: 'Nigerian Naira',
+    symbol: '₦',
+    minorUnits: 2,
+    flag: '🇳🇬',
+  },
+  NIO: {
+    code: 'NIO',
+    name: 'Nicaraguan Córdoba',
+    symbol: 'C$',
+    minorUnits: 2,
+    flag: '🇳🇮',
+  },
+  NOK: {
+    code: 'NOK',
+    name: 'Norwegian Krone',
+    symbol: 'kr',
+    minorUnits: 2,
+    flag: '🇳🇴',
+  },
+  NPR: {
+    code: 'NPR',
+    name: 'Nepalese Rupee',
+    symbol: 'Rs',
+    minorUnits: 2,
+    flag: '🇳🇵',
+  },
+  NZD: {
+    code: 'NZD',
+    name: 'New Zealand Dollar',
+    symbol: '$',
+    minorUnits: 2,
+    flag: '🇳🇿',
+  },
+  OMR: {
+    code: 'OMR',
+    name: 'Omani Rial',
+    symbol: 'ر.ع.',
+    minorUnits: 3,
+    flag: '🇴🇲',
+  },
+  PAB: {
+    code: 'PAB',
+    name: 'Panamanian Balboa',
+    symbol: 'PAB',
+    minorUnits: 2,
+    flag: '🇵🇦',
+  },
+  PEN: {
+    code: 'PEN',
+    name: 'Peruvian Sol',
+    symbol: 'PEN',
+    minorUnits: 2,
+    flag: '🇵🇪',
+  },
+  PGK: {
+    code: 'PGK',
+    name: 'Papua New Guinean Kina',
+    symbol: 'PGK',
+    minorUnits: 2,
+    flag: '🇵🇬',
+  },
+  PHP: {
+    code: 'PHP',
+    name: 'Philippine Peso',
+    symbol: '₱',
+    minorUnits: 2,
+    flag: '🇵🇭',
+  },
+  PKR: {
+    code: 'PKR',
+    name: 'Pakistani Rupee',
+    symbol: 'Rs',
+    minorUnits: 2,
+    flag: '🇵🇰',
+  },
+  PLN: {
+    code: 'PLN',
+    name: 'Polish Zloty',
+    symbol: 'zł',
+    minorUnits: 2,
+    flag: '🇵🇱',
+  },
+  PYG: {
+    code: 'PYG',
+    name: 'Paraguayan Guarani',
+    symbol: '₲',
+    minorUnits: 0,
+    flag: '🇵🇾',
+  },
+  QAR: {
+    code: 'QAR',
+    name: 'Qatari Riyal',
+    symbol: 'ر.ق',
+    minorUnits: 2,
+    flag: '🇶🇦',
+  },
+  RON: {
+    code: 'RON',
+    name: 'Romanian Leu',
+    symbol: 'lei',
+    minorUnits: 2,
+    flag: '🇷🇴',
+  },
+  RSD: {
+    code: 'RSD',
+    name: 'Serbian Dinar',
+    symbol: 'RSD',
+    minorUnits: 2,
+    flag: '🇷🇸',
+  },
+  RUB: {
+    code: 'RUB',
+    name: 'Russian Ruble',
+    symbol: '₽',
+    minorUnits: 2,
+    flag: '🇷🇺',
+  },
+  RWF: {
+    code: 'RWF',
+    name: 'Rwandan Franc',
+    symbol: 'RF',
+    minorUnits: 0,
+    flag: '🇷🇼',
+  },
+  SAR: {
+    code: 'SAR',
+    name: 'Saudi Riyal',
+    symbol: 'ر.س',
+    minorUnits: 2,
+    flag: '🇸🇦',
+  },
+  SBD: {
+    code: 'SBD',
+    name: 'Solomon Islands Dollar',
+    symbol: '$',
+    minorUnits: 2,
+    flag: '🇸🇧',
+  },
+  SCR: {
+    code: 'SCR',
+    name: 'Seychellois Rupee',
+    symbol: 'SCR',
+    minorUnits: 2,
+    flag: '🇸🇨',
+  },
+  SDG: {
+    code: 'SDG',
+    name: 'Sudanese Pound',
+    symbol: 'SDG',
+    minorUnits: 2,
+    flag: '🇸🇩',
+  },
+  SEK: {
+    code: 'SEK',
+    name: 'Swedish Krona',
+    symbol: 'kr',
+    minorUnits: 2,
+    flag: '🇸🇪',
+  },
+  SGD: {
+    code: 'SGD',
+    name: 'Singapore Dollar',
+    symbol: '$',
+    minorUnits: 2,
+    flag: '🇸🇬',
+  },
+  SHP: {
+    code: 'SHP',
+    name: 'St. Helena Pound',
+    symbol: '£',
+    minorUnits: 2,
+    flag: '🇸🇭',
+  },
+  SLE: {
+    code: 'SLE',
+    name: 'Sierra Leonean Leone',
+    symbol: 'SLE',
+    minorUnits: 2,
+    flag: '🇸🇱',
+  },
+  SOS: {
+    code: 'SOS',
+    name: 'Somali Shilling',
+    symbol: 'SOS',
+    minorUnits: 2,
+    flag: '🇸🇴',
+  },
+  SRD: {
+    code: 'SRD',
+    name: 'Surinamese Dollar',
+    symbol: '$',
+    minorUnits: 2,
+    flag: '🇸🇷',
+  },
+  SSP: {
+    code: 'SSP',
+    name: 'South Sudanese Pound',
+    symbol: '£',
+    minorUnits: 2,
+    flag: '🇸🇸',
+  },
+  STN: {
+    code: 'STN',
+    name: 'São Tomé & Príncipe Dobra',
+    symbol: 'Db',
+    minorUnits: 2,
+    flag: '🇸🇹',
+  },
+  SVC: {
+    code: 'SVC',
+    name: 'Salvadoran Colón',
+    symbol: 'SVC',
+    minorUnits: 2,
+    flag: '🇸🇻',
+  },
+  SYP: {
+    code: 'SYP',
+    name: 'Syrian Pound',
+    symbol: '£',
+    minorUnits: 2,
+    flag: '🇸🇾',
+  },
+  SZL: {
+    code: 'SZL',
+    name: 'Swazi Lilangeni',
+    symbol: 'SZL',
+    minorUnits: 2,
+    flag: '🇸🇿',
+  },
+  THB: {
+    code: 'THB',
+    name: 'Thai Baht',
+    symbol: '฿',
+    minorUnits: 2,
+    flag: '🇹🇭',
+  },
+  TJS: {
+    code: 'TJS',
+    name: 'Tajikistani Somoni',
+    symbol: 'TJS',
+    minorUnits: 2,
+    flag: '🇹🇯',
+  },
+  TMT: {
+    code: 'TMT',
+    name: 'Turkmenistani Manat',
+    symbol: 'TMT',
+    minorUnits: 2,
+    flag: '🇹🇲',
+  },
+  TND: {
+    code: 'TND',
+    name: 'Tunisian Dinar',
+    symbol: 'TND',
+    minorUnits: 3,
+    flag: '🇹🇳',
+  },
+  TOP: {
+    code: 'TOP',
+    name: 'Tongan Paʻanga',
+    symbol: 'T$',
+    minorUnits: 2,
+    flag: '🇹🇴',
+  },
+  TRY: {
+    code: 'TRY',
+    name: 'Turkish Lira',
+    symbol: '₺',
+    minorUnits: 2,
+    flag: '🇹🇷',
+  },
+  TTD: {
+    code: 'TTD',
+    name: 'Trinidad & Tobago Dollar',
+    symbol: '$',
+    minorUnits: 2,
+    flag: '🇹🇹',
+  },
+  TWD: {
+    code: 'TWD',
+    name: 'New Taiwan Dollar',
+    symbol: '$',
+    minorUnits: 2,
+    flag: '🇹🇼',
+  },
+  TZS: {
+    code: 'TZS',
+    name: 'Tanzanian Shilling',
+    symbol: 'TZS',
+    minorUnits: 2,
+    flag: '🇹🇿',
+  },
+  UAH: {
+    code: 'UAH',
+    name: 'Ukrainian Hryvnia',
+    symbol: '₴',
+    minorUnits: 2,
+    flag: '🇺🇦',
+  },
+  UGX: {
+    code: 'UGX',
+    name: 'Ugandan Shilling',
+    symbol: 'UGX',
+    minorUnits: 0,
+    flag: '🇺🇬',
+  },
+  USD: {
+    code: 'USD',
+    name: 'US Dollar',
+    symbol: '$',
+    minorUnits: 2,
+    flag: '🇺🇸',
+  },
+  UYU: {
+    code: 'UYU',
+    name: 'Uruguayan Peso',
+    symbol: '$',
+    minorUnits: 2,
+    flag: '🇺🇾',
+  },
+  UZS: {
+    code: 'UZS',
+    name: 'Uzbekistani Som',
+    symbol: 'UZS',
+    minorUnits: 2,
+    flag: '🇺🇿',
+  },
+  VES: {
+    code: 'VES',
+    name: 'Venezuelan Bolívar',
+    symbol: 'VES',
+    minorUnits: 2,
+    flag: '🇻🇪',
+  },
+  VND: {
+    code: 'VND',
+    name: 'Vietnamese Dong',
+    symbol: '₫',
+    minorUnits: 0,
+    flag: '🇻🇳',
+  },
+  VUV: {
+    code: 'VUV',
+    name: 'Vanuatu Vatu',
+    symbol: 'VUV',
+    minorUnits: 0,
+    flag: '🇻🇺',
+  },
+  WST: {
+    code: 'WST',
+    name: 'Samoan Tala',
+    symbol: 'WST',
+    minorUnits: 2,
+    flag: '🇼🇸',
+  },
+  XAF: {
+    code: 'XAF',
+    name: 'Central African CFA Franc',
+    symbol: 'FCFA',
+    minorUnits: 0,
+    flag: '🌍',
+  },
+  XCD: {
+    code: 'XCD',
+    name: 'East Caribbean Dollar',
+    symbol: '$',
+    minorUnits: 2,
+    flag: '🌎',
+  },
+  XOF: {
+    code: 'XOF',
+    name: 'West African CFA Franc',
+    symbol: 'F CFA',
+    minorUnits: 0,
+    flag: '🌍',
+  },
+  XPF: {
+    code: 'XPF',
+    name: 'CFP Franc',
+    symbol: 'CFPF',
+    minorUnits: 0,
+    flag: '🌏',
+  },
+  YER: {
+    code: 'YER',
+    name: 'Yemeni Rial',
+    symbol: 'YER',
+    minorUnits: 2,
+    flag: '🇾🇪',
+  },
+  ZAR: {
+    code: 'ZAR',
+    name: 'South African Rand',
+    symbol: 'R',
+    minorUnits: 2,
+    flag: '🇿🇦',
+  },
+  ZMW: {
+    code: 'ZMW',
+    name: 'Zambian Kwacha',
+    symbol: 'ZK',
+    minorUnits: 2,
+    flag: '🇿🇲',
+  },
+  ZWG: {
+    code: 'ZWG',
+    name: 'Zimbabwean Gold',
+    symbol: 'ZWG',
+    minorUnits: 2,
+    flag: '🇿🇼',
+  },
+};
+
+// Currencies enabled for new users
+export const DEFAULT_ENABLED_CURRENCIES: Currency[] = ['USD', 'SAR', 'EGP'];
+
+/**
+ * Check whether a string is a supported ISO 4217 currency code
+ */
+export function isCurrency(code: unknown): code is Currency {
+  return (
+    typeof code === 'string' &&
+    Object.prototype.hasOwnProperty.call(CURRENCIES, code)
+  );
+}
+
+/**
+ * Parse a currency code, e.g. from a database row, falling back when it
+ * isn't a supported currency
+ */
+export function parseCurrency(
+  code: unknown,
+  fallback: Currency = 'USD'
+): Currency {
+  return isCurrency(code) ? code : fallback;
+}
+
+/**
+ * Get the registry entry for a currency
+ */
+export function getCurrencyInfo(currency: Currency): CurrencyInfo {
+  return CURRENCIES[currency];
+}
@@ -1,31 +1,46 @@
 import { supabase } from './supabase';
+import { QuoteRates, getExchangeRateProvider } from './exchangeRateProvider';
+import { Currency, getCurrencyInfo, isCurrency } from './currencies';
+import {
+  CACHE_EXPIRATION,
+  cacheRate,
+  findStaleRate,
+  getFreshCachedRate,
+  loadRateCache,
+} from './exchangeRateCache';
+import { CustomRateData, findCustomRate, loadCustomRates } from './customRates';
+import { formatCurrencyAmount } from './formatting';
+import { Money } from './money';
 
-export type Currency = 'USD' | 'SAR' | 'EGP';
+export type { Currency } from './currencies';
 
-interface ExchangeRates {
-  [date: string]: {
-    [fromCurrency in Currency]?: {
-      [toCurrency in Currency]?: {
-        rate: number;
-        timestamp: number;
-      };
-    };
-  };
-}
-
-// Cache exchange rates for better performance
-const exchangeRatesCache: ExchangeRates = {};
+// All rates are stored against this currency, cross rates are derived
+export const BASE_CURRENCY: Currency = 'USD';
 
-// Cache expiration time (6 hours in milliseconds)
-const CACHE_EXPIRATION = 6 * 60 * 60 * 1000;
+// Significant digits kept for stored base rates
+const RATE_PRECISION = 10;
 
 // Rate limiting
 const API_CALLS: { timestamp: number }[] = [];
 const MAX_CALLS_PER_MINUTE = 30;
 const ONE_MINUTE = 60 * 1000;
+const ONE_DAY = 24 * 60 * 60 * 1000;
 
-const API_KEY = 'f9a58f72ab3a0f83d914574b';
-const API_BASE_URL = 'https://v6.exchangerate-api.com/v6';
+// The most rows the API returns at once, `max_rows` in its config
+const MAX_ROWS = 1000;
+
+// How many days back getExchangeRate may look for a stored rate when the
+// rate for the requested date can't be fetched (0 disables the fallback)
+let fallbackDays = Number(process.env.EXPO_PUBLIC_RATE_FALLBACK_DAYS ?? 7);
+
+/**
+ * Configure the nearest-earlier-rate fallback used for historical lookups
+ */
+export function configureExchangeRates(options: { fallbackDays?: number }) {
+  if (options.fallbackDays !== undefined) {
+    fallbackDays = options.fallbackDays;
+  }
+}
 
 /**
  * Check if we can make an API call based on rate limiting
@@ -40,113 +55,283 @@ function canMakeApiCall(): boolean {
 }
 
 /**
- * Get the exchange rate for a specific date and currency pair
+ * Wait until the rate limiter allows another API call
  */
-export async function getExchangeRate(
-  fromCurrency: Currency,
-  toCurrency: Currency,
-  date: Date
-): Promise<number> {
-  if (fromCurrency === toCurrency) return 1;
+export async function waitForApiSlot(): Promise<void> {
+  while (!canMakeApiCall()) {
+    const waitMs = ONE_MINUTE - (Date.now() - API_CALLS[0].timestamp) + 1;
+    await new Promise((resolve) => setTimeout(resolve, waitMs));
+  }
+}
 
-  const dateStr = date.toISOString().split('T')[0];
-  const now = Date.now();
+function roundRate(rate: number): number {
+  return Number(rate.toPrecision(RATE_PRECISION));
+}
 
-  // Check cache first
-  if (
-    exchangeRatesCache[dateStr]?.[fromCurrency]?.[toCurrency]?.rate &&
-    now - exchangeRatesCache[dateStr][fromCurrency][toCurrency].timestamp <
-      CACHE_EXPIRATION
-  ) {
-    return exchangeRatesCache[dateStr][fromCurrency][toCurrency].rate;
-  }
+/**
+ * Format a date as the YYYY-MM-DD key used by exchange_rates
+ */
+export function toDateKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
 
-  try {
-    // Get exchange rate from the database first
-    const { data: dbRate, error: dbError } = await supabase
-      .from('exchange_rates')
-      .select('rate, updated_at')
-      .eq('from_currency', fromCurrency)
-      .eq('to_currency', toCurrency)
-      .eq('date', dateStr)
-      .single();
-
-    if (!dbError && dbRate) {
-      const updatedAt = new Date(dbRate.updated_at).getTime();
-      if (now - updatedAt < CACHE_EXPIRATION) {
-        // Cache the result
-        if (!exchangeRatesCache[dateStr]) {
-          exchangeRatesCache[dateStr] = {};
-        }
-        if (!exchangeRatesCache[dateStr][fromCurrency]) {
-          exchangeRatesCache[dateStr][fromCurrency] = {} as {
-            [key in Currency]?: { rate: number; timestamp: number };
-          };
-        }
-        exchangeRatesCache[dateStr][fromCurrency][toCurrency] = {
-          rate: dbRate.rate,
-          timestamp: now,
-        };
-        return dbRate.rate;
-      }
-    }
+/**
+ * Find the nearest stored base rate before `dateStr`, within `fallbackDays`
+ */
+async function findEarlierRate(
+  currency: Currency,
+  dateStr: string
+): Promise<{ rate: number; date: string } | null> {
+  if (fallbackDays <= 0) return null;
+
+  const earliest = new Date(dateStr);
+  earliest.setUTCDate(earliest.getUTCDate() - fallbackDays);
+
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .select('rate, date')
+    .eq('from_currency', BASE_CURRENCY)
+    .eq('to_currency', currency)
+    .eq('is_backfilled', false)
+    .lt('date', dateStr)
+    .gte('date', toDateKey(earliest))
+    .order('date', { ascending: false })
+    .limit(1);
+
+  if (error || !data || data.length === 0) return null;
+  return { rate: Number(data[0].rate), date: data[0].date };
+}
+
+// In-flight provider requests by date, so concurrent lookups for the same
+// date share one API call
+const pendingBaseRates = new Map<string, Promise<QuoteRates>>();
+
+/**
+ * Fetch every base rate for a date from the provider. The Edge Function
+ * provider also stores them in exchange_rates; the client only caches them.
+ * One call covers all currencies for that date.
+ */
+export function refreshBaseRates(date: Date): Promise<QuoteRates> {
+  const dateStr = toDateKey(date);
+  const pending = pendingBaseRates.get(dateStr);
+  if (pending) return pending;
 
+  const request = (async () => {
     // Check rate limiting before making API call
     if (!canMakeApiCall()) {
       throw new Error('Rate limit exceeded. Please try again later.');
     }
 
     // Add timestamp for rate limiting
-    API_CALLS.push({ timestamp: now });
+    API_CALLS.push({ timestamp: Date.now() });
 
-    // If no rate found in DB or rate is expired, fetch from API
-    const response = await fetch(
-      `${API_BASE_URL}/${API_KEY}/latest/${fromCurrency}`
+    const providerRates = await getExchangeRateProvider().getRates(
+      BASE_CURRENCY,
+      date
     );
-    const data = await response.json();
 
-    if (data.result === 'error') {
-      throw new Error(`API Error: ${data['error-type']}`);
-    }
+    const rates: QuoteRates = {};
+    (Object.keys(providerRates) as Currency[])
+      .filter((currency) => isCurrency(currency) && currency !== BASE_CURRENCY)
+      .forEach((currency) => {
+        const rate = roundRate(providerRates[currency]!);
+        rates[currency] = rate;
+        cacheRate(dateStr, BASE_CURRENCY, currency, rate);
+      });
+
+    return rates;
+  })();
+
+  pendingBaseRates.set(dateStr, request);
+  request.then(
+    () => pendingBaseRates.delete(dateStr),
+    () => pendingBaseRates.delete(dateStr)
+  );
+  return request;
+}
 
-    const rate = data.conversion_rates[toCurrency];
+/**
+ * Fetch a base rate from the provider, falling back to the nearest earlier
+ * stored rate when the provider can't be reached. The refresh function
+ * stores its own estimates, this covers the function being unreachable.
+ * Fallbacks are stale as of their own date and aren't cached, so the real
+ * rate is fetched next time.
+ */
+async function fetchBaseRate(
+  currency: Currency,
+  date: Date,
+  refresh = false
+): Promise<RateQuote> {
+  const dateStr = toDateKey(date);
+
+  try {
+    const rates = await refreshBaseRates(date);
+    const rate = rates[currency];
     if (!rate) {
-      throw new Error(`No conversion rate found for ${toCurrency}`);
+      throw new Error(`No conversion rate found for ${currency}`);
     }
+    return { rate, stale: false, asOf: null };
+  } catch (fetchError) {
+    if (refresh) throw fetchError;
 
-    // Store or update the rate in the database using upsert
-    const { error: upsertError } = await supabase.from('exchange_rates').upsert(
-      {
-        from_currency: fromCurrency,
-        to_currency: toCurrency,
-        date: dateStr,
-        rate,
-        updated_at: new Date().toISOString(),
-      },
-      {
-        onConflict: 'from_currency,to_currency,date',
-      }
-    );
+    // Fall back to the nearest earlier stored rate
+    const earlier = await findEarlierRate(currency, dateStr);
+    if (!earlier) throw fetchError;
 
-    if (upsertError) {
-      console.error('Error storing exchange rate:', upsertError);
-    }
+    return {
+      rate: earlier.rate,
+      stale: true,
+      asOf: new Date(`${earlier.date}T23:59:59Z`),
+    };
+  }
+}
+
+/**
+ * An exchange rate, and whether it's a stale cached rate used because
+ * fresh data couldn't be fetched
+ */
+export type RateQuote = {
+  rate: number;
+  stale: boolean;
+  // When a stale rate was last known to be current
+  asOf: Date | null;
+};
+
+/**
+ * Get the rate from the base currency to `currency` on a date
+ */
+async function getBaseRateQuote(
+  currency: Currency,
+  date: Date,
+  options: { refresh?: boolean }
+): Promise<RateQuote> {
+  if (currency === BASE_CURRENCY) return { rate: 1, stale: false, asOf: null };
+
+  const dateStr = toDateKey(date);
+  const isHistorical = dateStr < toDateKey(new Date());
+
+  // Check cache first
+  const cached = getFreshCachedRate(dateStr, BASE_CURRENCY, currency);
+  if (!options.refresh && cached) {
+    return { rate: cached, stale: false, asOf: null };
+  }
 
-    // Cache the result
-    if (!exchangeRatesCache[dateStr]) {
-      exchangeRatesCache[dateStr] = {};
+  try {
+    if (!options.refresh) {
+      // Get exchange rate from the database first
+      const { data: dbRate, error: dbError } = await supabase
+        .from('exchange_rates')
+        .select('rate, updated_at')
+        .eq('from_currency', BASE_CURRENCY)
+        .eq('to_currency', currency)
+        .eq('date', dateStr)
+        .single();
+
+      if (!dbError && dbRate) {
+        const updatedAt = new Date(dbRate.updated_at).getTime();
+        // Rates for past dates never change, only today's rate expires
+        if (isHistorical || Date.now() - updatedAt < CACHE_EXPIRATION) {
+          const rate = Number(dbRate.rate);
+          cacheRate(dateStr, BASE_CURRENCY, currency, rate);
+          return { rate, stale: false, asOf: null };
+        }
+      }
     }
-    if (!exchangeRatesCache[dateStr][fromCurrency]) {
-      exchangeRatesCache[dateStr][fromCurrency] = {} as {
-        [key in Currency]?: { rate: number; timestamp: number };
-      };
+
+    return await fetchBaseRate(currency, date, options.refresh);
+  } catch (error) {
+    const staleRate = options.refresh
+      ? null
+      : findStaleRate(BASE_CURRENCY, currency, dateStr);
+    if (staleRate) {
+      console.warn('Using stale exchange rate:', error);
+      return { ...staleRate, stale: true };
     }
-    exchangeRatesCache[dateStr][fromCurrency][toCurrency] = {
-      rate,
-      timestamp: now,
-    };
+    throw error;
+  }
+}
+
+/**
+ * The user's custom rate sources, or none if they can't be loaded so
+ * conversions still work offline
+ */
+async function getCustomRates(): Promise<CustomRateData> {
+  try {
+    return await loadCustomRates();
+  } catch (error) {
+    console.error('Error loading custom exchange rates:', error);
+    return { sources: [], rates: [], pairSources: [] };
+  }
+}
+
+/**
+ * Derive the A→B rate from the base rates of A and B. Inverse and cross
+ * rates come from the same pair of base rates, so A→B and B→A always agree
+ * and converting A→B→A returns the original amount (up to floating point
+ * precision).
+ */
+export function crossRate(fromBaseRate: number, toBaseRate: number): number {
+  return toBaseRate / fromBaseRate;
+}
+
+/**
+ * Get the exchange rate for a specific date and currency pair, falling
+ * back to the most recent known rate when Supabase and the provider are
+ * both unreachable.
+ *
+ * If the user chose a custom rate source for the pair, its rate takes
+ * precedence. Otherwise rates are stored against BASE_CURRENCY only;
+ * inverse and cross rates are derived here, and a custom source chosen for
+ * a currency against BASE_CURRENCY replaces that currency's base rate.
+ * Past dates use the historical rate for that day, today uses the latest
+ * rate. Set `refresh` to skip custom rates, the cache and stored rows,
+ * e.g. to replace a backfilled estimate with the real rate.
+ */
+export async function getExchangeRateQuote(
+  fromCurrency: Currency,
+  toCurrency: Currency,
+  date: Date,
+  options: { refresh?: boolean } = {}
+): Promise<RateQuote> {
+  if (fromCurrency === toCurrency) return { rate: 1, stale: false, asOf: null };
+
+  const dateStr = toDateKey(date);
+  const customRates = options.refresh
+    ? { sources: [], rates: [], pairSources: [] }
+    : await getCustomRates();
+
+  const custom = findCustomRate(customRates, fromCurrency, toCurrency, dateStr);
+  if (custom) return { rate: custom.rate, stale: false, asOf: null };
+
+  await loadRateCache();
+
+  const baseQuote = (currency: Currency): Promise<RateQuote> => {
+    const customBase = findCustomRate(
+      customRates,
+      BASE_CURRENCY,
+      currency,
+      dateStr
+    );
+    return customBase
+      ? Promise.resolve({ rate: customBase.rate, stale: false, asOf: null })
+      : getBaseRateQuote(currency, date, options);
+  };
+
+  try {
+    const [from, to] = await Promise.all([
+      baseQuote(fromCurrency),
+      baseQuote(toCurrency),
+    ]);
+
+    const asOfTimes = [from.asOf, to.asOf]
+      .filter((asOf): asOf is Date => asOf !== null)
+      .map((asOf) => asOf.getTime());
 
-    return rate;
+    return {
+      rate: crossRate(from.rate, to.rate),
+      stale: from.stale || to.stale,
+      asOf: asOfTimes.length > 0 ? new Date(Math.min(...asOfTimes)) : null,
+    };
   } catch (error) {
     console.error('Error getting exchange rate:', error);
     throw error instanceof Error
@@ -155,6 +340,24 @@ export async function getExchangeRate(
   }
 }
 
+/**
+ * Get the exchange rate for a specific date and currency pair
+ */
+export async function getExchangeRate(
+  fromCurrency: Currency,
+  toCurrency: Currency,
+  date: Date,
+  options: { refresh?: boolean } = {}
+): Promise<number> {
+  const { rate } = await getExchangeRateQuote(
+    fromCurrency,
+    toCurrency,
+    date,
+    options
+  );
+  return rate;
+}
+
 /**
  * Convert an amount from one currency to another
  */
@@ -173,16 +376,257 @@ export async function convertAmount(
   }
 }
 
+export type ConversionItem = {
+  amount: number;
+  currency: Currency;
+  date: Date | string;
+  // Conversion locked on the transaction when it was entered
+  base_currency?: string | null;
+  converted_amount?: number | null;
+};
+
 /**
- * Format an amount with its currency symbol
+ * The conversion stored on a transaction: the rate used and the amount in
+ * the user's base currency at entry time
  */
-export function formatAmount(amount: number, currency: Currency): string {
-  const formatter = new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency,
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
+export type LockedConversion = {
+  base_currency: Currency;
+  exchange_rate: number;
+  converted_amount: number;
+  rate_overridden: boolean;
+};
+
+/**
+ * Work out the conversion to lock on a transaction, using the market rate
+ * for its date unless a manual rate (e.g. the bank's rate) is given
+ */
+export async function lockConversion(
+  amount: Money,
+  baseCurrency: Currency,
+  date: Date,
+  overrideRate?: number
+): Promise<LockedConversion> {
+  const rate =
+    overrideRate ??
+    (await getExchangeRate(amount.currency, baseCurrency, date));
+
+  return {
+    base_currency: baseCurrency,
+    exchange_rate: rate,
+    converted_amount: amount.convert(rate, baseCurrency).toMajor(),
+    rate_overridden: overrideRate !== undefined,
+  };
+}
+
+/**
+ * Converted amounts in input order, each rounded to the target currency's
+ * minor units. When any rate had to fall back to a stale cached rate,
+ * `stale` is set and `asOf` is the oldest such rate.
+ */
+export type ConversionBatch = {
+  amounts: number[];
+  stale: boolean;
+  asOf: Date | null;
+};
+
+/**
+ * Stored base rates for `currencies` on any of `dates`. Queried by date
+ * range rather than listing every date, split so no response is cut off at
+ * `MAX_ROWS`. Ranges that fail to load are logged and left out.
+ */
+export async function loadStoredBaseRates(
+  currencies: Currency[],
+  dates: string[]
+) {
+  // At most one row per currency and day
+  const maxDays = Math.max(1, Math.floor(MAX_ROWS / currencies.length));
+  const ranges: { from: string; to: string }[] = [];
+  Array.from(new Set(dates))
+    .sort()
+    .forEach((date) => {
+      const range = ranges[ranges.length - 1];
+      if (
+        range &&
+        Date.parse(date) - Date.parse(range.from) < maxDays * ONE_DAY
+      ) {
+        range.to = date;
+      } else {
+        ranges.push({ from: date, to: date });
+      }
+    });
+
+  const results = await Promise.all(
+    ranges.map(({ from, to }) =>
+      supabase
+        .from('exchange_rates')
+        .select('to_currency, date, rate, updated_at, is_backfilled')
+        .eq('from_currency', BASE_CURRENCY)
+        .in('to_currency', currencies)
+        .gte('date', from)
+        .lte('date', to)
+    )
+  );
+  return results.flatMap(({ data, error }) => {
+    if (error) console.error('Error loading exchange rates:', error);
+    return data || [];
   });
+}
+
+/**
+ * Convert many amounts to one currency, returning results in input order.
+ *
+ * Items with a conversion locked in `toCurrency` use the locked amount
+ * unless `recompute` or `at` is set, and pairs with a custom rate source
+ * use its rate. With `at`, every item is converted at that date's rate
+ * instead of its own. For the rest, each (currency, date) base rate is
+ * resolved once: custom and cached rates are used first, every other
+ * stored rate is loaded from exchange_rates by date range, and only the
+ * dates still missing are fetched from the provider. Rates that can't be
+ * fetched fall back to the most recent known rate.
+ */
+export async function convertMany(
+  items: ConversionItem[],
+  toCurrency: Currency,
+  options: { recompute?: boolean; at?: Date } = {}
+): Promise<ConversionBatch> {
+  await loadRateCache();
+
+  const now = Date.now();
+  const today = toDateKey(new Date());
+  const baseRates = new Map<string, number>();
+  const missing = new Map<string, { currency: Currency; dateStr: string }>();
+
+  const customRates = await getCustomRates();
+
+  const need = (currency: Currency, dateStr: string) => {
+    const key = `${currency}|${dateStr}`;
+    if (currency === BASE_CURRENCY) {
+      baseRates.set(key, 1);
+    } else if (!baseRates.has(key) && !missing.has(key)) {
+      // A custom source chosen against the base currency replaces the
+      // official base rate
+      const custom = findCustomRate(
+        customRates,
+        BASE_CURRENCY,
+        currency,
+        dateStr
+      );
+      const cached = getFreshCachedRate(dateStr, BASE_CURRENCY, currency);
+      if (custom) {
+        baseRates.set(key, custom.rate);
+      } else if (cached) {
+        baseRates.set(key, cached);
+      } else {
+        missing.set(key, { currency, dateStr });
+      }
+    }
+    return key;
+  };
+
+  const isLocked = (item: ConversionItem) =>
+    !options.recompute &&
+    !options.at &&
+    item.base_currency === toCurrency &&
+    item.converted_amount !== null &&
+    item.converted_amount !== undefined;
+
+  // A custom rate, or the cache keys of the two base rates to cross
+  const keys = items.map(
+    (item): { rate: number } | { from: string; to: string } | null => {
+      const dateStr = toDateKey(options.at ?? new Date(item.date));
+      if (item.currency === toCurrency || isLocked(item)) return null;
 
-  return formatter.format(amount);
+      // A custom source chosen for the pair takes precedence
+      const custom = findCustomRate(
+        customRates,
+        item.currency,
+        toCurrency,
+        dateStr
+      );
+      if (custom) return { rate: custom.rate };
+
+      return {
+        from: need(item.currency, dateStr),
+        to: need(toCurrency, dateStr),
+      };
+    }
+  );
+
+  let asOf: Date | null = null;
+
+  try {
+    if (missing.size > 0) {
+      const pending = Array.from(missing.values());
+      const dbRates = await loadStoredBaseRates(
+        Array.from(new Set(pending.map((p) => p.currency))),
+        pending.map((p) => p.dateStr)
+      );
+
+      dbRates.forEach((row) => {
+        const key = `${row.to_currency}|${row.date}`;
+        const updatedAt = new Date(row.updated_at).getTime();
+        // Rates for past dates never change, only today's rate expires
+        if (
+          missing.has(key) &&
+          (row.date < today || now - updatedAt < CACHE_EXPIRATION)
+        ) {
+          const rate = Number(row.rate);
+          cacheRate(row.date, BASE_CURRENCY, row.to_currency as Currency, rate);
+          baseRates.set(key, rate);
+          missing.delete(key);
+        }
+      });
+
+      // Fetch whatever the table doesn't have yet, one API call per date
+      await Promise.all(
+        Array.from(missing.entries()).map(
+          async ([key, { currency, dateStr }]) => {
+            try {
+              const quote = await fetchBaseRate(currency, new Date(dateStr));
+              baseRates.set(key, quote.rate);
+              if (quote.asOf && (!asOf || quote.asOf < asOf)) {
+                asOf = quote.asOf;
+              }
+            } catch (error) {
+              const staleRate = findStaleRate(BASE_CURRENCY, currency, dateStr);
+              if (!staleRate) throw error;
+
+              baseRates.set(key, staleRate.rate);
+              if (!asOf || staleRate.asOf < asOf) {
+                asOf = staleRate.asOf;
+              }
+            }
+          }
+        )
+      );
+    }
+
+    return {
+      amounts: items.map((item, index) => {
+        const key = keys[index];
+        if (isLocked(item)) return Number(item.converted_amount);
+        if (!key) return item.amount;
+        const rate =
+          'rate' in key
+            ? key.rate
+            : crossRate(baseRates.get(key.from)!, baseRates.get(key.to)!);
+        return Money.fromMajor(item.amount, item.currency)
+          .convert(rate, toCurrency)
+          .toMajor();
+      }),
+      stale: asOf !== null,
+      asOf,
+    };
+  } catch (error) {
+    console.error('Error converting amounts:', error);
+    throw new Error('Failed to convert amounts');
+  }
+}
+
+/**
+ * Format an amount with its currency symbol in en-US. Screens should use
+ * `formatAmount` from `useCurrency`, which applies the user's locale.
+ */
+export function formatAmount(amount: number, currency: Currency): string {
+  return formatCurrencyAmount(amount, currency);
 }
@@ -0,0 +1,291 @@
+import { supabase } from './supabase';
+import { Currency, isCurrency } from './currencies';
+import { getUserId } from './data/session';
+
+/**
+ * A named source of rates the user enters themselves, e.g. their bank or
+ * the parallel market
+ */
+export type RateSource = {
+  id: string;
+  name: string;
+};
+
+/**
+ * A rate entered for a source. It applies from `date` until a newer rate
+ * from the same source for the same pair.
+ */
+export type CustomRate = {
+  id: string;
+  source_id: string;
+  from_currency: Currency;
+  to_currency: Currency;
+  date: string;
+  rate: number;
+};
+
+/**
+ * The source a user converts a pair with, in both directions. Pairs
+ * without one use the official rates.
+ */
+export type PairSource = {
+  from_currency: Currency;
+  to_currency: Currency;
+  source_id: string;
+};
+
+export type CustomRateData = {
+  sources: RateSource[];
+  // Oldest first
+  rates: CustomRate[];
+  pairSources: PairSource[];
+};
+
+const EMPTY_DATA: CustomRateData = { sources: [], rates: [], pairSources: [] };
+
+// Loaded once per signed-in user
+let customRateData: CustomRateData | null = null;
+let loadedForUser: string | null = null;
+let loadPromise: Promise<CustomRateData> | null = null;
+
+/**
+ * Order a pair alphabetically, the way user_pair_sources stores it
+ */
+export function sortPair(a: Currency, b: Currency): [Currency, Currency] {
+  return a < b ? [a, b] : [b, a];
+}
+
+/**
+ * Rows for pairs the app no longer supports are left out
+ */
+function isSupportedPair<
+  T extends { from_currency: string; to_currency: string }
+>(row: T): row is T & { from_currency: Currency; to_currency: Currency } {
+  return isCurrency(row.from_currency) && isCurrency(row.to_currency);
+}
+
+/**
+ * Load the signed-in user's rate sources, custom rates and pair choices.
+ * Safe to call repeatedly, the tables are only read again after
+ * `clearCustomRates` or a change of user.
+ */
+export async function loadCustomRates(): Promise<CustomRateData> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  const userId = session?.user.id ?? null;
+
+  if (userId !== loadedForUser) {
+    clearCustomRates();
+    loadedForUser = userId;
+  }
+  if (!userId) return EMPTY_DATA;
+  if (customRateData) return customRateData;
+
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const [sources, rates, pairSources] = await Promise.all([
+          supabase
+            .from('rate_sources')
+            .select('id, name')
+            .order('name', { ascending: true }),
+          supabase
+            .from('user_exchange_rates')
+            .select('id, source_id, from_currency, to_currency, date, rate')
+            .order('date', { ascending: true }),
+          supabase
+            .from('user_pair_sources')
+            .select('from_currency, to_currency, source_id'),
+        ]);
+
+        if (sources.error) throw sources.error;
+        if (rates.error) throw rates.error;
+        if (pairSources.error) throw pairSources.error;
+
+        customRateData = {
+          sources: sources.data || [],
+          rates: (rates.data || []).filter(isSupportedPair).map((row) => ({
+            ...row,
+            rate: Number(row.rate),
+          })),
+          pairSources: (pairSources.data || []).filter(isSupportedPair),
+        };
+        return customRateData;
+      } finally {
+        loadPromise = null;
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+/**
+ * Forget the loaded data, e.g. after a source, rate or choice changed
+ */
+export function clearCustomRates() {
+  customRateData = null;
+  loadPromise = null;
+}
+
+/**
+ * The source chosen for a pair, or null for the official rates
+ */
+export function getPairSource(
+  data: CustomRateData,
+  a: Currency,
+  b: Currency
+): string | null {
+  const [from, to] = sortPair(a, b);
+  return (
+    data.pairSources.find(
+      (p) => p.from_currency === from && p.to_currency === to
+    )?.source_id ?? null
+  );
+}
+
+/**
+ * Find the rate in effect for a pair on a date from one source: the latest
+ * one on or before that date, entered in either direction
+ */
+export function findSourceRate(
+  data: CustomRateData,
+  sourceId: string,
+  fromCurrency: Currency,
+  toCurrency: Currency,
+  dateStr: string
+): CustomRate | null {
+  for (let i = data.rates.length - 1; i >= 0; i--) {
+    const rate = data.rates[i];
+    if (rate.source_id !== sourceId || rate.date > dateStr) continue;
+    if (
+      rate.from_currency === fromCurrency &&
+      rate.to_currency === toCurrency
+    ) {
+      return rate;
+    }
+    if (
+      rate.from_currency === toCurrency &&
+      rate.to_currency === fromCurrency
+    ) {
+      return {
+        ...rate,
+        from_currency: fromCurrency,
+        to_currency: toCurrency,
+        rate: 1 / rate.rate,
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the custom rate to convert a pair with on a date, if the user chose
+ * a custom source for the pair and it has a rate by then
+ */
+export function findCustomRate(
+  data: CustomRateData,
+  fromCurrency: Currency,
+  toCurrency: Currency,
+  dateStr: string
+): CustomRate | null {
+  const sourceId = getPairSource(data, fromCurrency, toCurrency);
+  if (!sourceId) return null;
+  return findSourceRate(data, sourceId, fromCurrency, toCurrency, dateStr);
+}
+
+/**
+ * Create a named rate source
+ */
+export async function createRateSource(name: string): Promise<RateSource> {
+  const userId = await getUserId();
+
+  const { data, error } = await supabase
+    .from('rate_sources')
+    .insert({ user_id: userId, name: name.trim() })
+    .select('id, name')
+    .single();
+
+  if (error) throw error;
+  clearCustomRates();
+  return data;
+}
+
+/**
+ * Delete a rate source with its rates. Pairs using it go back to the
+ * official rates.
+ */
+export async function deleteRateSource(id: string): Promise<void> {
+  const { error } = await supabase.from('rate_sources').delete().eq('id', id);
+
+  if (error) throw error;
+  clearCustomRates();
+}
+
+/**
+ * Add or replace a source's rate for a pair on a date
+ */
+export async function saveCustomRate(
+  rate: Omit<CustomRate, 'id'>
+): Promise<void> {
+  const userId = await getUserId();
+
+  const { error } = await supabase.from('user_exchange_rates').upsert(
+    {
+      ...rate,
+      user_id: userId,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'source_id,from_currency,to_currency,date' }
+  );
+
+  if (error) throw error;
+  clearCustomRates();
+}
+
+/**
+ * Delete one custom rate
+ */
+export async function deleteCustomRate(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('user_exchange_rates')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+  clearCustomRates();
+}
+
+/**
+ * Choose the source a pair is converted with, or null for the official
+ * rates
+ */
+export async function setPairSource(
+  a: Currency,
+  b: Currency,
+  sourceId: string | null
+): Promise<void> {
+  const userId = await getUserId();
+  const [from, to] = sortPair(a, b);
+
+  const { error } = sourceId
+    ? await supabase.from('user_pair_sources').upsert(
+        {
+          user_id: userId,
+          from_currency: from,
+          to_currency: to,
+          source_id: sourceId,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'user_id,from_currency,to_currency' }
+      )
+    : await supabase
+        .from('user_pair_sources')
+        .delete()
+        .eq('user_id', userId)
+        .eq('from_currency', from)
+        .eq('to_currency', to);
+
+  if (error) throw error;
+  clearCustomRates();
+}
@@ -0,0 +1,87 @@
+import { supabase } from '../supabase';
+import type { Tables } from './tables';
+import { getUserId } from './session';
+
+export type CategoryType = 'income' | 'expense';
+
+export type Category = {
+  id: string;
+  name: string;
+  color: string;
+  type: CategoryType;
+};
+
+export type CategoryInput = Omit<Category, 'id'>;
+
+const CATEGORY_COLUMNS = 'id, name, color, type';
+
+export function parseCategory(
+  row: Pick<Tables<'categories'>, 'id' | 'name' | 'color' | 'type'>
+): Category {
+  return {
+    id: row.id,
+    name: row.name,
+    color: row.color,
+    type: row.type === 'income' ? 'income' : 'expense',
+  };
+}
+
+/**
+ * The user's categories, optionally of one type, ordered by type and name
+ */
+export async function listCategories(type?: CategoryType): Promise<Category[]> {
+  const userId = await getUserId();
+
+  let query = supabase
+    .from('categories')
+    .select(CATEGORY_COLUMNS)
+    .eq('user_id', userId);
+  if (type) query = query.eq('type', type);
+
+  const { data, error } = await query.order('type').order('name');
+
+  if (error) throw error;
+  return (data || []).map(parseCategory);
+}
+
+export async function createCategory(
+  category: CategoryInput
+): Promise<Category> {
+  const userId = await getUserId();
+
+  const { data, error } = await supabase
+    .from('categories')
+    .insert({ ...category, user_id: userId })
+    .select(CATEGORY_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return parseCategory(data);
+}
+
+export async function updateCategory(
+  id: string,
+  changes: Partial<CategoryInput>
+): Promise<void> {
+  const userId = await getUserId();
+
+  const { error } = await supabase
+    .from('categories')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
+
+export async function deleteCategory(id: string): Promise<void> {
+  const userId = await getUserId();
+
+  const { error } = await supabase
+    .from('categories')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,492 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[];
+
+export type Database = {
+  public: {
+    Tables: {
+      attachments: {
+        Row: {
+          created_at: string | null;
+          id: string;
+          transaction_id: string | null;
+          type: string;
+          url: string;
+        };
+        Insert: {
+          created_at?: string | null;
+          id?: string;
+          transaction_id?: string | null;
+          type: string;
+          url: string;
+        };
+        Update: {
+          created_at?: string | null;
+          id?: string;
+          transaction_id?: string | null;
+          type?: string;
+          url?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'attachments_transaction_id_fkey';
+            columns: ['transaction_id'];
+            isOneToOne: false;
+            referencedRelation: 'transactions';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      budgets: {
+        Row: {
+          amount: number;
+          category_id: string | null;
+          created_at: string | null;
+          currency: string;
+          end_date: string;
+          id: string;
+          period: string;
+          start_date: string;
+          user_id: string | null;
+        };
+        Insert: {
+          amount: number;
+          category_id?: string | null;
+          created_at?: string | null;
+          currency: string;
+          end_date: string;
+          id?: string;
+          period: string;
+          start_date: string;
+          user_id?: string | null;
+        };
+        Update: {
+          amount?: number;
+          category_id?: string | null;
+          created_at?: string | null;
+          currency?: string;
+          end_date?: string;
+          id?: string;
+          period?: string;
+          start_date?: string;
+          user_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'budgets_category_id_fkey';
+            columns: ['category_id'];
+            isOneToOne: false;
+            referencedRelation: 'categories';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'budgets_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      categories: {
+        Row: {
+          color: string;
+          created_at: string | null;
+          icon: string | null;
+          id: string;
+          name: string;
+          parent_id: string | null;
+          type: string;
+          updated_at: string | null;
+          user_id: string | null;
+        };
+        Insert: {
+          color: string;
+          created_at?: string | null;
+          icon?: string | null;
+          id?: string;
+          name: string;
+          parent_id?: string | null;
+          type: string;
+          updated_at?: string | null;
+          user_id?: string | null;
+        };
+        Update: {
+          color?: string;
+          created_at?: string | null;
+          icon?: string | null;
+          id?: string;
+          name?: string;
+          parent_id?: string | null;
+          type?: string;
+          updated_at?: string | null;
+          user_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'categories_parent_id_fkey';
+            columns: ['parent_id'];
+            isOneToOne: false;
+            referencedRelation: 'categories';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'categories_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      exchange_rates: {
+        Row: {
+          created_at: string;
+          date: string;
+          from_currency: string;
+          id: string;
+          is_backfilled: boolean;
+          rate: number;
+          source: string;
+          source_date: string | null;
+          to_currency: string;
+          updated_at: string;
+        };
+        Insert: {
+          created_at?: string;
+          date: string;
+          from_currency: string;
+          id?: string;
+          is_backfilled?: boolean;
+          rate: number;
+          source?: string;
+          source_date?: string | null;
+          to_currency: string;
+          updated_at?: string;
+        };
+        Update: {
+          created_at?: string;
+          date?: string;
+          from_currency?: string;
+          id?: string;
+          is_backfilled?: boolean;
+          rate?: number;
+          source?: string;
+          source_date?: string | null;
+          to_currency?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      rate_sources: {
+        Row: {
+          created_at: string | null;
+          id: string;
+          name: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string | null;
+          id?: string;
+          name: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string | null;
+          id?: string;
+          name?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'rate_sources_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      saved_views: {
+        Row: {
+          created_at: string | null;
+          filters: Json;
+          id: string;
+          name: string;
+          sort: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string | null;
+          filters?: Json;
+          id?: string;
+          name: string;
+          sort?: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string | null;
+          filters?: Json;
+          id?: string;
+          name?: string;
+          sort?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'saved_views_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      transactions: {
+        Row: {
+          amount: number;
+          base_currency: string | null;
+          category_id: string | null;
+          converted_amount: number | null;
+          created_at: string | null;
+          currency: string;
+          date: string | null;
+          day: string | null;
+          description: string | null;
+          destination_amount: number | null;
+          destination_currency: string | null;
+          exchange_rate: number | null;
+          fee: number;
+          id: string;
+          market_rate: number | null;
+          payment_method: string | null;
+          rate_overridden: boolean;
+          type: string;
+          updated_at: string | null;
+          user_id: string | null;
+        };
+        Insert: {
+          amount: number;
+          base_currency?: string | null;
+          category_id?: string | null;
+          converted_amount?: number | null;
+          created_at?: string | null;
+          currency: string;
+          date?: string | null;
+          day?: never;
+          description?: string | null;
+          destination_amount?: number | null;
+          destination_currency?: string | null;
+          exchange_rate?: number | null;
+          fee?: number;
+          id?: string;
+          market_rate?: number | null;
+          payment_method?: string | null;
+          rate_overridden?: boolean;
+          type: string;
+          updated_at?: string | null;
+          user_id?: string | null;
+        };
+        Update: {
+          amount?: number;
+          base_currency?: string | null;
+          category_id?: string | null;
+          converted_amount?: number | null;
+          created_at?: string | null;
+          currency?: string;
+          date?: string | null;
+          day?: never;
+          description?: string | null;
+          destination_amount?: number | null;
+          destination_currency?: string | null;
+          exchange_rate?: number | null;
+          fee?: number;
+          id?: string;
+          market_rate?: number | null;
+          payment_method?: string | null;
+          rate_overridden?: boolean;
+          type?: string;
+          updated_at?: string | null;
+          user_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'transactions_category_id_fkey';
+            columns: ['category_id'];
+            isOneToOne: false;
+            referencedRelation: 'categories';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'transactions_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      user_exchange_rates: {
+        Row: {
+          created_at: string | null;
+          date: string;
+          from_currency: string;
+          id: string;
+          rate: number;
+          source_id: string;
+          to_currency: string;
+          updated_at: string | null;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string | null;
+          date: string;
+          from_currency: string;
+          id?: string;
+          rate: number;
+          source_id: string;
+          to_currency: string;
+          updated_at?: string | null;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string | null;
+          date?: string;
+          from_currency?: string;
+          id?: string;
+          rate?: number;
+          source_id?: string;
+          to_currency?: string;
+          updated_at?: string | null;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'user_exchange_rates_source_id_fkey';
+            columns: ['source_id'];
+            isOneToOne: false;
+            referencedRelation: 'rate_sources';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'user_exchange_rates_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      user_pair_sources: {
+        Row: {
+          from_currency: string;
+          source_id: string;
+          to_currency: string;
+          updated_at: string | null;
+          user_id: string;
+        };
+        Insert: {
+          from_currency: string;
+          source_id: string;
+          to_currency: string;
+          updated_at?: string | null;
+          user_id: string;
+        };
+        Update: {
+          from_currency?: string;
+          source_id?: string;
+          to_currency?: string;
+          updated_at?: string | null;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'user_pair_sources_source_id_fkey';
+            columns: ['source_id'];
+            isOneToOne: false;
+            referencedRelation: 'rate_sources';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'user_pair_sources_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      users: {
+        Row: {
+          conversion_mode: string;
+          created_at: string;
+          currency_preference: string | null;
+          email: string | null;
+          enabled_currencies: string[];
+          full_name: string | null;
+          id: string;
+          locale_preference: string;
+          numbering_system: string;
+          secondary_currency: string | null;
+          theme_preference: string | null;
+          updated_at: string;
+          use_locked_rates: boolean;
+        };
+        Insert: {
+          conversion_mode?: string;
+          created_at?: string;
+          currency_preference?: string | null;
+          email?: string | null;
+          enabled_currencies?: string[];
+          full_name?: string | null;
+          id: string;
+          locale_preference?: string;
+          numbering_system?: string;
+          secondary_currency?: string | null;
+          theme_preference?: string | null;
+          updated_at?: string;
+          use_locked_rates?: boolean;
+        };
+        Update: {
+          conversion_mode?: string;
+          created_at?: string;
+          currency_preference?: string | null;
+          email?: string | null;
+          enabled_currencies?: string[];
+          full_name?: string | null;
+          id?: string;
+          locale_preference?: string;
+          numbering_system?: string;
+          secondary_currency?: string | null;
+          theme_preference?: string | null;
+          updated_at?: string;
+          use_locked_rates?: boolean;
+        };
+        Relationships: [];
+      };
+    };
+    Views: {
+      [_ in never]: never;
+    };
+    Functions: {
+      currencies_in_use: {
+        Args: Record<PropertyKey, never>;
+        Returns: string[];
+      };
+      is_supported_currency: {
+        Args: { code: string };
+        Returns: boolean;
+      };
+    };
+    Enums: {
+      [_ in never]: never;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
+  };
+};
@@ -0,0 +1,9 @@
+export * from './categories';
+export * from './realtime';
+export * from './session';
+export * from './sync';
+export * from './transactions';
+export * from './users';
+export * from './views';
+export type { Database } from './database.types';
+export type { Tables, TablesInsert, TablesUpdate } from './tables';
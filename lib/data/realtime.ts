@@ -0,0 +1,101 @@
+import { supabase } from '../supabase';
+import { Category, parseCategory } from './categories';
+import type { Tables } from './tables';
+import { UserSettings, parseUserSettings } from './users';
+
+export type RealtimeHandlers = {
+  // Inserted or updated. The payload has no category, so it's reloaded.
+  onTransactionChange: (id: string) => void;
+  // Deletes can be of other users' rows too, with ids that match nothing
+  onTransactionDelete: (id: string) => void;
+  onCategoryChange: (category: Category) => void;
+  onCategoryDelete: (id: string) => void;
+  onUserSettingsChange: (settings: UserSettings) => void;
+};
+
+/**
+ * Listen for changes to the user's transactions, categories and settings,
+ * made on this device or any other. Returns a function that stops
+ * listening.
+ */
+export function subscribeToUserChanges(
+  userId: string,
+  handlers: RealtimeHandlers
+): () => void {
+  const channel = supabase
+    .channel(`user-changes:${userId}`)
+    .on<Tables<'transactions'>>(
+      'postgres_changes',
+      {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'transactions',
+        filter: `user_id=eq.${userId}`,
+      },
+      (payload) => handlers.onTransactionChange(payload.new.id)
+    )
+    .on<Tables<'transactions'>>(
+      'postgres_changes',
+      {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'transactions',
+        filter: `user_id=eq.${userId}`,
+      },
+      (payload) => handlers.onTransactionChange(payload.new.id)
+    )
+    // Deletes can't be filtered, and carry only the id of the row
+    .on<Tables<'transactions'>>(
+      'postgres_changes',
+      { event: 'DELETE', schema: 'public', table: 'transactions' },
+      (payload) => {
+        if (payload.old.id) handlers.onTransactionDelete(payload.old.id);
+      }
+    )
+    .on<Tables<'categories'>>(
+      'postgres_changes',
+      {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'categories',
+        filter: `user_id=eq.${userId}`,
+      },
+      (payload) => handlers.onCategoryChange(parseCategory(payload.new))
+    )
+    .on<Tables<'categories'>>(
+      'postgres_changes',
+      {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'categories',
+        filter: `user_id=eq.${userId}`,
+      },
+      (payload) => handlers.onCategoryChange(parseCategory(payload.new))
+    )
+    .on<Tables<'categories'>>(
+      'postgres_changes',
+      { event: 'DELETE', schema: 'public', table: 'categories' },
+      (payload) => {
+        if (payload.old.id) handlers.onCategoryDelete(payload.old.id);
+      }
+    )
+    .on<Tables<'users'>>(
+      'postgres_changes',
+      {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'users',
+        filter: `id=eq.${userId}`,
+      },
+      (payload) => handlers.onUserSettingsChange(parseUserSettings(payload.new))
+    )
+    .subscribe((status, error) => {
+      if (status === 'CHANNEL_ERROR') {
+        console.error('Error subscribing to changes:', error);
+      }
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
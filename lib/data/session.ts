@@ -0,0 +1,12 @@
+import { supabase } from '../supabase';
+
+/**
+ * The signed-in user's id, for scoping queries and filling in `user_id`
+ */
+export async function getUserId(): Promise<string> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+  return user.id;
+}
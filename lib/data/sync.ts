@@ -0,0 +1,188 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from '../supabase';
+import type { Category, CategoryInput } from './categories';
+import type {
+  Transaction,
+  TransactionAmount,
+  TransactionCursor,
+  TransactionInput,
+} from './transactions';
+
+/**
+ * A write made on this device that hasn't reached the server yet. Null
+ * values delete the row. Whichever of it and the server row was changed
+ * last wins.
+ */
+export type PendingChange = {
+  id: string;
+  updatedAt: string;
+  // Why the server last rejected it. Kept and retried, as a new session
+  // or an earlier change syncing can fix it.
+  error?: string;
+} & (
+  | { table: 'transactions'; values: TransactionInput | null }
+  | { table: 'categories'; values: CategoryInput | null }
+);
+
+/**
+ * What's kept on the device for a user, to show before the server answers
+ * and to queue writes while offline
+ */
+export type LocalSnapshot = {
+  // As last loaded from the server: the first page of transactions, where
+  // the next one starts, and the amounts of all of them
+  transactions: Transaction[];
+  cursor: TransactionCursor | null;
+  amounts: TransactionAmount[];
+  categories: Category[];
+  // Oldest first
+  pending: PendingChange[];
+};
+
+// Synced: the change was saved. Superseded: the server has a newer
+// version, or the row is gone. Offline: try again later.
+export type SyncResult = 'synced' | 'superseded' | 'offline';
+
+const EMPTY_SNAPSHOT: LocalSnapshot = {
+  transactions: [],
+  cursor: null,
+  amounts: [],
+  categories: [],
+  pending: [],
+};
+
+// Kept under separate keys, so a write failing on a large entry never
+// loses the queue with it
+function storageKey(userId: string) {
+  return `local-store:${userId}`;
+}
+
+function amountsKey(userId: string) {
+  return `local-amounts:${userId}`;
+}
+
+function pendingKey(userId: string) {
+  return `local-pending:${userId}`;
+}
+
+// Past this, amounts are loaded from the server each start instead, as
+// Android can't read back entries over about 2MB
+const MAX_STORED_AMOUNTS = 5000;
+
+async function loadItem<T>(key: string): Promise<Partial<T>> {
+  try {
+    const stored = await AsyncStorage.getItem(key);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error(`Error loading ${key}:`, error);
+    return {};
+  }
+}
+
+async function saveItem(key: string, value: unknown): Promise<void> {
+  try {
+    await AsyncStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Error saving ${key}:`, error);
+  }
+}
+
+export async function loadLocalSnapshot(
+  userId: string
+): Promise<LocalSnapshot> {
+  const [store, amounts, pending] = await Promise.all([
+    loadItem<LocalSnapshot>(storageKey(userId)),
+    loadItem<Pick<LocalSnapshot, 'amounts'>>(amountsKey(userId)),
+    loadItem<Pick<LocalSnapshot, 'pending'>>(pendingKey(userId)),
+  ]);
+  // Older versions kept everything under the first key
+  return { ...EMPTY_SNAPSHOT, ...store, ...amounts, ...pending };
+}
+
+/**
+ * Save the first page and categories, everything but the amounts and the
+ * queue, which change on their own
+ */
+export async function saveLocalSnapshot(
+  userId: string,
+  snapshot: Omit<LocalSnapshot, 'amounts' | 'pending'>
+): Promise<void> {
+  await saveItem(storageKey(userId), snapshot);
+}
+
+export async function saveLocalAmounts(
+  userId: string,
+  amounts: TransactionAmount[]
+): Promise<void> {
+  if (amounts.length > MAX_STORED_AMOUNTS) {
+    await AsyncStorage.removeItem(amountsKey(userId)).catch((error) =>
+      console.error('Error removing stored amounts:', error)
+    );
+    return;
+  }
+  await saveItem(amountsKey(userId), { amounts });
+}
+
+export async function saveLocalPending(
+  userId: string,
+  pending: PendingChange[]
+): Promise<void> {
+  await saveItem(pendingKey(userId), { pending });
+}
+
+/**
+ * A random v4 UUID, so rows created offline have their id from the start
+ */
+export function generateId(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+  });
+}
+
+function sendChange(userId: string, change: PendingChange) {
+  if (!change.values) {
+    // Rows never stamped count as oldest
+    return supabase
+      .from(change.table)
+      .delete()
+      .eq('id', change.id)
+      .or(`updated_at.is.null,updated_at.lte."${change.updatedAt}"`)
+      .select('id');
+  }
+
+  // Updates older than the stored row are skipped by the database
+  const stamp = {
+    id: change.id,
+    user_id: userId,
+    updated_at: change.updatedAt,
+  };
+  if (change.table === 'transactions') {
+    return supabase
+      .from('transactions')
+      .upsert({ ...change.values, ...stamp })
+      .select('id');
+  }
+  return supabase
+    .from('categories')
+    .upsert({ ...change.values, ...stamp })
+    .select('id');
+}
+
+/**
+ * Write a queued change to the server. Errors other than being offline
+ * are thrown, for the change to be kept and shown as failed.
+ */
+export async function pushChange(
+  userId: string,
+  change: PendingChange
+): Promise<SyncResult> {
+  const { data, error, status } = await sendChange(userId, change);
+
+  if (error) {
+    // No response, or the server is down for now
+    if (status === 0 || status >= 500) return 'offline';
+    throw new Error(error.message);
+  }
+  return data.length > 0 ? 'synced' : 'superseded';
+}
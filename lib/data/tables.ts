@@ -0,0 +1,15 @@
+import type { Database } from './database.types';
+
+// Kept apart from database.types.ts, which `npm run gen:types` replaces
+// whole with the local database's schema after each migration
+
+type PublicSchema = Database['public'];
+
+export type Tables<T extends keyof PublicSchema['Tables']> =
+  PublicSchema['Tables'][T]['Row'];
+
+export type TablesInsert<T extends keyof PublicSchema['Tables']> =
+  PublicSchema['Tables'][T]['Insert'];
+
+export type TablesUpdate<T extends keyof PublicSchema['Tables']> =
+  PublicSchema['Tables'][T]['Update'];
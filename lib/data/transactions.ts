@@ -0,0 +1,616 @@
+import {
+  endOfMonth,
+  endOfYear,
+  startOfMonth,
+  startOfYear,
+  subMonths,
+} from 'date-fns';
+import type { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from '../supabase';
+import { Currency, isCurrency, parseCurrency } from '../currencies';
+import type { TablesInsert } from './tables';
+import { getUserId } from './session';
+
+export type TransactionType = 'income' | 'expense' | 'exchange';
+
+export type Transaction = {
+  id: string;
+  amount: number;
+  currency: Currency;
+  type: TransactionType;
+  description: string;
+  date: string;
+  category_id: string | null;
+  category: {
+    id: string;
+    name: string;
+    color: string;
+  } | null;
+  // Conversion locked when the transaction was entered
+  base_currency: Currency | null;
+  exchange_rate: number | null;
+  converted_amount: number | null;
+  rate_overridden: boolean;
+  // Exchanges only
+  destination_amount: number | null;
+  destination_currency: Currency | null;
+  fee: number;
+  market_rate: number | null;
+};
+
+/**
+ * Columns that can be written, with currencies and the type checked
+ */
+export type TransactionInput = Omit<
+  TablesInsert<'transactions'>,
+  | 'id'
+  | 'user_id'
+  | 'created_at'
+  | 'updated_at'
+  | 'currency'
+  | 'type'
+  | 'base_currency'
+  | 'destination_currency'
+> & {
+  currency: Currency;
+  type: TransactionType;
+  base_currency?: Currency | null;
+  destination_currency?: Currency | null;
+};
+
+/**
+ * Just what totals need, for summing every transaction without loading
+ * them in full
+ */
+export type TransactionAmount = Pick<
+  Transaction,
+  | 'id'
+  | 'amount'
+  | 'currency'
+  | 'type'
+  | 'date'
+  | 'category_id'
+  | 'base_currency'
+  | 'converted_amount'
+>;
+
+/**
+ * What money reports need: the amounts a transaction moves in and out of
+ * each currency, and when
+ */
+export type TransactionFlow = Pick<
+  Transaction,
+  | 'amount'
+  | 'currency'
+  | 'type'
+  | 'date'
+  | 'destination_amount'
+  | 'destination_currency'
+  | 'fee'
+>;
+
+export type TransactionSums = {
+  count: number;
+  // One per currency, type, day and locked conversion, with the day as
+  // the date
+  sums: Omit<TransactionAmount, 'id' | 'category_id'>[];
+};
+
+/**
+ * Where a page ends: the last transaction's date and id, the list's sort
+ * order
+ */
+export type TransactionCursor = {
+  date: string;
+  id: string;
+};
+
+export type TransactionPage = {
+  transactions: Transaction[];
+  // Null on the last page
+  nextCursor: TransactionCursor | null;
+};
+
+export type SortedTransactionPage = {
+  transactions: Transaction[];
+  // Null on the last page
+  nextOffset: number | null;
+};
+
+export const TRANSACTION_PAGE_SIZE = 50;
+
+/**
+ * A date range relative to today, so saved filters keep up with the
+ * calendar
+ */
+export type DatePeriod = 'this_month' | 'last_month' | 'this_year';
+
+export const DATE_PERIODS: { period: DatePeriod; label: string }[] = [
+  { period: 'this_month', label: 'This month' },
+  { period: 'last_month', label: 'Last month' },
+  { period: 'this_year', label: 'This year' },
+];
+
+export function getPeriodRange(
+  period: DatePeriod,
+  now = new Date()
+): { from: Date; to: Date } {
+  switch (period) {
+    case 'this_month':
+      return { from: startOfMonth(now), to: endOfMonth(now) };
+    case 'last_month': {
+      const lastMonth = subMonths(now, 1);
+      return { from: startOfMonth(lastMonth), to: endOfMonth(lastMonth) };
+    }
+    case 'this_year':
+      return { from: startOfYear(now), to: endOfYear(now) };
+  }
+}
+
+export type TransactionFilters = {
+  // Found anywhere in the description, ignoring case
+  search?: string;
+  types?: TransactionType[];
+  currencies?: Currency[];
+  // Transactions in any of these categories, or without one when
+  // `uncategorized` is set
+  categoryIds?: string[];
+  uncategorized?: boolean;
+  // Inclusive, compared against the transaction's timestamp
+  from?: Date;
+  to?: Date;
+  // Used instead of `from` and `to` when set
+  period?: DatePeriod;
+  // Inclusive, in each transaction's own currency
+  minAmount?: number;
+  maxAmount?: number;
+};
+
+const TRANSACTION_COLUMNS =
+  'id, amount, currency, type, description, date, category_id, base_currency, exchange_rate, converted_amount, rate_overridden, destination_amount, destination_currency, fee, market_rate, category:categories (id, name, color)';
+
+const AMOUNT_COLUMNS =
+  'id, amount, currency, type, date, category_id, base_currency, converted_amount';
+
+const FLOW_COLUMNS =
+  'amount, currency, type, date, destination_amount, destination_currency, fee';
+
+// The most rows the API returns at once, `max_rows` in its config
+const MAX_ROWS = 1000;
+
+/**
+ * Every row of a query too big for one response. The first page tells
+ * how many more there are, which are then fetched all at once.
+ */
+async function selectAllPages<Row>(
+  selectPage: (
+    from: number,
+    to: number,
+    count?: 'exact'
+  ) => PromiseLike<{
+    data: Row[] | null;
+    error: PostgrestError | null;
+    count: number | null;
+  }>
+): Promise<Row[]> {
+  const first = await selectPage(0, MAX_ROWS - 1, 'exact');
+  if (first.error) throw first.error;
+  const starts: number[] = [];
+  for (let from = MAX_ROWS; from < (first.count ?? 0); from += MAX_ROWS) {
+    starts.push(from);
+  }
+  const rest = await Promise.all(
+    starts.map((from) => selectPage(from, from + MAX_ROWS - 1))
+  );
+
+  return [first, ...rest].flatMap(({ data, error }) => {
+    if (error) throw error;
+    return data || [];
+  });
+}
+
+function selectTransactions() {
+  return supabase.from('transactions').select(TRANSACTION_COLUMNS);
+}
+
+function applyFilters<
+  Query extends {
+    eq(column: string, value: string): Query;
+    in(column: string, values: string[]): Query;
+    is(column: string, value: null): Query;
+    or(filters: string): Query;
+    ilike(column: string, pattern: string): Query;
+    gte(column: string, value: unknown): Query;
+    lte(column: string, value: unknown): Query;
+  }
+>(query: Query, userId: string, filters: TransactionFilters): Query {
+  query = query.eq('user_id', userId);
+  if (filters.search) {
+    // Matched literally, not as a pattern
+    const search = filters.search.replace(/[\\%_]/g, '\\$&');
+    query = query.ilike('description', `%${search}%`);
+  }
+  if (filters.types) query = query.in('type', filters.types);
+  if (filters.currencies) query = query.in('currency', filters.currencies);
+  if (filters.categoryIds && filters.uncategorized) {
+    query = query.or(
+      `category_id.is.null,category_id.in.(${filters.categoryIds.join(',')})`
+    );
+  } else if (filters.categoryIds) {
+    query = query.in('category_id', filters.categoryIds);
+  } else if (filters.uncategorized) {
+    query = query.is('category_id', null);
+  }
+  const { from, to } = filters.period
+    ? getPeriodRange(filters.period)
+    : filters;
+  if (from) query = query.gte('date', from.toISOString());
+  if (to) query = query.lte('date', to.toISOString());
+  if (filters.minAmount !== undefined) {
+    query = query.gte('amount', filters.minAmount);
+  }
+  if (filters.maxAmount !== undefined) {
+    query = query.lte('amount', filters.maxAmount);
+  }
+  return query;
+}
+
+type TransactionRow = NonNullable<
+  Awaited<ReturnType<typeof selectTransactions>>['data']
+>[number];
+
+function toNumber(value: number | null): number | null {
+  return value !== null ? Number(value) : null;
+}
+
+function parseTransactionType(type: string): TransactionType {
+  return type === 'income' || type === 'exchange' ? type : 'expense';
+}
+
+function parseTransaction(row: TransactionRow): Transaction {
+  return {
+    id: row.id,
+    amount: Number(row.amount),
+    currency: parseCurrency(row.currency),
+    type: parseTransactionType(row.type),
+    description: row.description || '',
+    date: row.date || '',
+    category_id: row.category_id,
+    category: row.category,
+    base_currency: isCurrency(row.base_currency) ? row.base_currency : null,
+    exchange_rate: toNumber(row.exchange_rate),
+    converted_amount: toNumber(row.converted_amount),
+    rate_overridden: row.rate_overridden,
+    destination_amount: toNumber(row.destination_amount),
+    destination_currency: isCurrency(row.destination_currency)
+      ? row.destination_currency
+      : null,
+    fee: Number(row.fee ?? 0),
+    market_rate: toNumber(row.market_rate),
+  };
+}
+
+/**
+ * The transaction as it reads back once `input` is saved, for showing
+ * changes that haven't reached the server yet
+ */
+export function toTransaction(
+  id: string,
+  input: TransactionInput,
+  category: Transaction['category']
+): Transaction {
+  return {
+    id,
+    amount: input.amount,
+    currency: input.currency,
+    type: input.type,
+    description: input.description || '',
+    date: input.date || '',
+    category_id: input.category_id ?? null,
+    category,
+    base_currency: input.base_currency ?? null,
+    exchange_rate: input.exchange_rate ?? null,
+    converted_amount: input.converted_amount ?? null,
+    rate_overridden: input.rate_overridden ?? false,
+    destination_amount: input.destination_amount ?? null,
+    destination_currency: input.destination_currency ?? null,
+    fee: input.fee ?? 0,
+    market_rate: input.market_rate ?? null,
+  };
+}
+
+/**
+ * Every writable field of a transaction, to save it again with changes
+ */
+export function toTransactionInput(transaction: Transaction): TransactionInput {
+  return {
+    amount: transaction.amount,
+    currency: transaction.currency,
+    type: transaction.type,
+    description: transaction.description,
+    date: transaction.date,
+    category_id: transaction.category_id,
+    base_currency: transaction.base_currency,
+    exchange_rate: transaction.exchange_rate,
+    converted_amount: transaction.converted_amount,
+    rate_overridden: transaction.rate_overridden,
+    destination_amount: transaction.destination_amount,
+    destination_currency: transaction.destination_currency,
+    fee: transaction.fee,
+    market_rate: transaction.market_rate,
+  };
+}
+
+/**
+ * The fields of a transaction that totals need
+ */
+export function toTransactionAmount(
+  transaction: Transaction
+): TransactionAmount {
+  return {
+    id: transaction.id,
+    amount: transaction.amount,
+    currency: transaction.currency,
+    type: transaction.type,
+    date: transaction.date,
+    category_id: transaction.category_id,
+    base_currency: transaction.base_currency,
+    converted_amount: transaction.converted_amount,
+  };
+}
+
+/**
+ * The user's transactions matching `filters`, newest first, with their
+ * category. Loaded in pages, as each response is capped at `MAX_ROWS`.
+ */
+export async function listTransactions(
+  filters: TransactionFilters = {}
+): Promise<Transaction[]> {
+  const userId = await getUserId();
+
+  const rows = await selectAllPages((from, to, count) =>
+    applyFilters(
+      supabase.from('transactions').select(TRANSACTION_COLUMNS, { count }),
+      userId,
+      filters
+    )
+      .order('date', { ascending: false })
+      .order('id', { ascending: false })
+      .range(from, to)
+  );
+  return rows.map(parseTransaction);
+}
+
+/**
+ * One page of the user's transactions, newest first, starting after
+ * `cursor`. Transactions on the same date are ordered by id so pages never
+ * overlap or skip.
+ */
+export async function listTransactionsPage(
+  cursor: TransactionCursor | null,
+  filters: TransactionFilters = {},
+  limit = TRANSACTION_PAGE_SIZE
+): Promise<TransactionPage> {
+  const userId = await getUserId();
+
+  let query = applyFilters(selectTransactions(), userId, filters);
+  if (cursor) {
+    query = query.or(
+      `date.lt."${cursor.date}",and(date.eq."${cursor.date}",id.lt.${cursor.id})`
+    );
+  }
+
+  // One extra row tells whether there's another page
+  const { data, error } = await query
+    .order('date', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1);
+
+  if (error) throw error;
+  const transactions = (data || []).slice(0, limit).map(parseTransaction);
+  const last = transactions[transactions.length - 1];
+  return {
+    transactions,
+    nextCursor:
+      data && data.length > limit ? { date: last.date, id: last.id } : null,
+  };
+}
+
+/**
+ * One page of the user's transactions in another order than by date:
+ * largest amount first, or by category name with uncategorized last. Ties
+ * are newest first. Pages start at an offset, as neither order has a
+ * cursor that can be filtered on.
+ */
+export async function listSortedTransactionsPage(
+  sort: 'amount' | 'category',
+  offset: number,
+  filters: TransactionFilters = {},
+  limit = TRANSACTION_PAGE_SIZE
+): Promise<SortedTransactionPage> {
+  const userId = await getUserId();
+
+  let query = applyFilters(selectTransactions(), userId, filters);
+  query =
+    sort === 'amount'
+      ? query.order('amount', { ascending: false })
+      : query.order('category(name)', { ascending: true, nullsFirst: false });
+
+  const { data, error } = await query
+    .order('date', { ascending: false })
+    .order('id', { ascending: false })
+    .range(offset, offset + limit);
+
+  if (error) throw error;
+  return {
+    transactions: (data || []).slice(0, limit).map(parseTransaction),
+    nextOffset: data && data.length > limit ? offset + limit : null,
+  };
+}
+
+/**
+ * How many of the user's transactions match `filters`, without loading
+ * them
+ */
+export async function countTransactions(
+  filters: TransactionFilters = {}
+): Promise<number> {
+  const userId = await getUserId();
+
+  const { count, error } = await applyFilters(
+    supabase.from('transactions').select('id', { count: 'exact', head: true }),
+    userId,
+    filters
+  );
+
+  if (error) throw error;
+  return count ?? 0;
+}
+
+/**
+ * How many of the user's transactions match `filters` and their amounts,
+ * added up on the server by currency, type, day and locked conversion so
+ * the sums convert like the transactions would
+ */
+export async function sumTransactions(
+  filters: TransactionFilters = {}
+): Promise<TransactionSums> {
+  const userId = await getUserId();
+
+  const selectPage = (from: number) =>
+    applyFilters(
+      supabase
+        .from('transactions')
+        .select(
+          'currency, type, day, base_currency, amount:amount.sum(), converted_amount:converted_amount.sum(), count()'
+        ),
+      userId,
+      filters
+    )
+      .order('day')
+      .order('currency')
+      .order('type')
+      .order('base_currency')
+      .range(from, from + MAX_ROWS - 1);
+
+  // The number of groups isn't known up front, so pages load in turn
+  const rows = [];
+  for (let from = 0; ; from += MAX_ROWS) {
+    const { data, error } = await selectPage(from);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < MAX_ROWS) break;
+  }
+
+  return {
+    count: rows.reduce((count, row) => count + Number(row.count), 0),
+    sums: rows.map((row) => ({
+      amount: Number(row.amount),
+      currency: parseCurrency(row.currency),
+      type: parseTransactionType(row.type),
+      date: row.day || '',
+      base_currency: isCurrency(row.base_currency) ? row.base_currency : null,
+      converted_amount: toNumber(row.converted_amount),
+    })),
+  };
+}
+
+/**
+ * The amounts of all the user's transactions matching `filters`, for
+ * totals. Loaded in pages, as each response is capped at `MAX_ROWS`.
+ */
+export async function listTransactionAmounts(
+  filters: TransactionFilters = {}
+): Promise<TransactionAmount[]> {
+  const userId = await getUserId();
+
+  // Ordered by id so the pages don't overlap
+  const rows = await selectAllPages((from, to, count) =>
+    applyFilters(
+      supabase.from('transactions').select(AMOUNT_COLUMNS, { count }),
+      userId,
+      filters
+    )
+      .order('id')
+      .range(from, to)
+  );
+  return rows.map((row) => ({
+    id: row.id,
+    amount: Number(row.amount),
+    currency: parseCurrency(row.currency),
+    type: parseTransactionType(row.type),
+    date: row.date || '',
+    category_id: row.category_id,
+    base_currency: isCurrency(row.base_currency) ? row.base_currency : null,
+    converted_amount: toNumber(row.converted_amount),
+  }));
+}
+
+/**
+ * What every one of the user's transactions moved in and out of each
+ * currency, oldest first
+ */
+export async function listTransactionFlows(): Promise<TransactionFlow[]> {
+  const userId = await getUserId();
+
+  const rows = await selectAllPages((from, to, count) =>
+    supabase
+      .from('transactions')
+      .select(FLOW_COLUMNS, { count })
+      .eq('user_id', userId)
+      .order('date', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to)
+  );
+  return rows.map((row) => ({
+    amount: Number(row.amount),
+    currency: parseCurrency(row.currency),
+    type: parseTransactionType(row.type),
+    date: row.date || '',
+    destination_amount: toNumber(row.destination_amount),
+    destination_currency: isCurrency(row.destination_currency)
+      ? row.destination_currency
+      : null,
+    fee: Number(row.fee ?? 0),
+  }));
+}
+
+export async function getTransaction(id: string): Promise<Transaction> {
+  const { data, error } = await selectTransactions().eq('id', id).single();
+
+  if (error) throw error;
+  return parseTransaction(data);
+}
+
+export async function createTransaction(
+  transaction: TransactionInput
+): Promise<Transaction> {
+  const userId = await getUserId();
+
+  const { data, error } = await supabase
+    .from('transactions')
+    .insert({ ...transaction, user_id: userId })
+    .select(TRANSACTION_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return parseTransaction(data);
+}
+
+export async function updateTransaction(
+  id: string,
+  changes: Partial<TransactionInput>
+): Promise<void> {
+  const { error } = await supabase
+    .from('transactions')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+export async function deleteTransaction(id: string): Promise<void> {
+  const { error } = await supabase.from('transactions').delete().eq('id', id);
+
+  if (error) throw error;
+}
@@ -0,0 +1,208 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from '../supabase';
+import {
+  Currency,
+  DEFAULT_ENABLED_CURRENCIES,
+  isCurrency,
+  parseCurrency,
+} from '../currencies';
+import { DEFAULT_FORMAT_PREFERENCES, FormatPreferences } from '../formatting';
+import type { ConversionMode } from '../reportConversion';
+import type { Tables, TablesUpdate } from './tables';
+import { getUserId } from './session';
+
+export type ThemePreference = 'light' | 'dark' | 'system';
+
+/**
+ * Everything a user can set that lives on their `users` row
+ */
+export type UserSettings = {
+  preferredCurrency: Currency;
+  secondaryCurrency: Currency | null;
+  enabledCurrencies: Currency[];
+  useLockedRates: boolean;
+  conversionMode: ConversionMode;
+  formatPreferences: FormatPreferences;
+  themePreference: ThemePreference;
+};
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  preferredCurrency: 'USD',
+  secondaryCurrency: null,
+  enabledCurrencies: DEFAULT_ENABLED_CURRENCIES,
+  useLockedRates: true,
+  conversionMode: 'historical',
+  formatPreferences: DEFAULT_FORMAT_PREFERENCES,
+  themePreference: 'light',
+};
+
+const USER_SETTINGS_COLUMNS =
+  'currency_preference, secondary_currency, enabled_currencies, use_locked_rates, conversion_mode, locale_preference, numbering_system, theme_preference';
+
+type UserSettingsRow = Pick<
+  Tables<'users'>,
+  | 'currency_preference'
+  | 'secondary_currency'
+  | 'enabled_currencies'
+  | 'use_locked_rates'
+  | 'conversion_mode'
+  | 'locale_preference'
+  | 'numbering_system'
+  | 'theme_preference'
+>;
+
+export function parseUserSettings(row: UserSettingsRow): UserSettings {
+  return {
+    preferredCurrency: parseCurrency(row.currency_preference),
+    secondaryCurrency: isCurrency(row.secondary_currency)
+      ? row.secondary_currency
+      : null,
+    enabledCurrencies: row.enabled_currencies.filter(isCurrency),
+    useLockedRates: row.use_locked_rates,
+    conversionMode:
+      row.conversion_mode === 'current' ? 'current' : 'historical',
+    formatPreferences: {
+      locale: row.locale_preference,
+      numberingSystem: row.numbering_system === 'arab' ? 'arab' : 'latn',
+    },
+    themePreference:
+      row.theme_preference === 'dark' || row.theme_preference === 'system'
+        ? row.theme_preference
+        : 'light',
+  };
+}
+
+function toUserSettingsRow(
+  changes: Partial<UserSettings>
+): TablesUpdate<'users'> {
+  const row: TablesUpdate<'users'> = {};
+  if (changes.preferredCurrency !== undefined) {
+    row.currency_preference = changes.preferredCurrency;
+  }
+  if (changes.secondaryCurrency !== undefined) {
+    row.secondary_currency = changes.secondaryCurrency;
+  }
+  if (changes.enabledCurrencies !== undefined) {
+    row.enabled_currencies = changes.enabledCurrencies;
+  }
+  if (changes.useLockedRates !== undefined) {
+    row.use_locked_rates = changes.useLockedRates;
+  }
+  if (changes.conversionMode !== undefined) {
+    row.conversion_mode = changes.conversionMode;
+  }
+  if (changes.formatPreferences !== undefined) {
+    row.locale_preference = changes.formatPreferences.locale;
+    row.numbering_system = changes.formatPreferences.numberingSystem;
+  }
+  if (changes.themePreference !== undefined) {
+    row.theme_preference = changes.themePreference;
+  }
+  return row;
+}
+
+export async function getUserSettings(userId: string): Promise<UserSettings> {
+  const { data, error } = await supabase
+    .from('users')
+    .select(USER_SETTINGS_COLUMNS)
+    .eq('id', userId)
+    .single();
+
+  if (error) throw error;
+  return parseUserSettings(data);
+}
+
+function storageKey(userId: string) {
+  return `user-settings:${userId}`;
+}
+
+/**
+ * The settings last loaded for `userId` on this device, so they apply
+ * before the server answers or when it can't be reached
+ */
+export async function loadCachedUserSettings(
+  userId: string
+): Promise<UserSettings | null> {
+  try {
+    const stored = await AsyncStorage.getItem(storageKey(userId));
+    // Settings cached by older versions lack some fields
+    return stored ? { ...DEFAULT_USER_SETTINGS, ...JSON.parse(stored) } : null;
+  } catch (error) {
+    console.error('Error loading cached user settings:', error);
+    return null;
+  }
+}
+
+export async function saveCachedUserSettings(
+  userId: string,
+  settings: UserSettings
+): Promise<void> {
+  try {
+    await AsyncStorage.setItem(storageKey(userId), JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error caching user settings:', error);
+  }
+}
+
+/**
+ * Save some of the signed-in user's settings, all in one update
+ */
+export async function updateUserSettings(
+  changes: Partial<UserSettings>
+): Promise<void> {
+  const userId = await getUserId();
+
+  const { error } = await supabase
+    .from('users')
+    .update({
+      ...toUserSettingsRow(changes),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', userId);
+
+  if (error) throw error;
+}
+
+export type Profile = {
+  full_name: string;
+  email: string;
+};
+
+/**
+ * The signed-in user's name and email, falling back to their auth account
+ */
+export async function getProfile(): Promise<Profile> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const { data } = await supabase
+    .from('users')
+    .select('full_name, email')
+    .eq('id', user.id)
+    .single();
+
+  return {
+    full_name: data?.full_name || user.user_metadata?.full_name || '',
+    email: data?.email || user.email || '',
+  };
+}
+
+export async function updateProfile(profile: { full_name: string }) {
+  const userId = await getUserId();
+
+  const [{ error: authError }, { error }] = await Promise.all([
+    supabase.auth.updateUser({ data: { full_name: profile.full_name } }),
+    supabase
+      .from('users')
+      .update({
+        full_name: profile.full_name,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', userId),
+  ]);
+
+  if (authError) throw authError;
+  if (error) throw error;
+}
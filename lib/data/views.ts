@@ -0,0 +1,106 @@
+import { supabase } from '../supabase';
+import type { TransactionFilterParams } from '../transactionFilters';
+import type { Tables } from './tables';
+import { getUserId } from './session';
+
+/**
+ * How a view's transactions are ordered: newest first, largest amount in
+ * its own currency or in the preferred one first, or by category name
+ */
+export type TransactionSort =
+  | 'date'
+  | 'amount'
+  | 'converted_amount'
+  | 'category';
+
+export const TRANSACTION_SORTS: { sort: TransactionSort; label: string }[] = [
+  { sort: 'date', label: 'Date' },
+  { sort: 'amount', label: 'Amount' },
+  { sort: 'converted_amount', label: 'Converted amount' },
+  { sort: 'category', label: 'Category' },
+];
+
+export function parseTransactionSort(
+  sort: string | null | undefined
+): TransactionSort {
+  return (
+    TRANSACTION_SORTS.find((option) => option.sort === sort)?.sort ?? 'date'
+  );
+}
+
+/**
+ * A named list of transactions, kept as the filter route params it opens
+ */
+export type SavedView = {
+  id: string;
+  name: string;
+  filters: TransactionFilterParams;
+  sort: TransactionSort;
+};
+
+export type SavedViewInput = Omit<SavedView, 'id'>;
+
+const SAVED_VIEW_COLUMNS = 'id, name, filters, sort';
+
+function parseSavedView(
+  row: Pick<Tables<'saved_views'>, 'id' | 'name' | 'filters' | 'sort'>
+): SavedView {
+  const filters: TransactionFilterParams = {};
+  // Only string params, whatever else the JSON holds
+  if (row.filters && typeof row.filters === 'object') {
+    Object.entries(row.filters).forEach(([key, value]) => {
+      if (typeof value === 'string' && value) {
+        filters[key as keyof TransactionFilterParams] = value;
+      }
+    });
+  }
+  return {
+    id: row.id,
+    name: row.name,
+    filters,
+    sort: parseTransactionSort(row.sort),
+  };
+}
+
+/**
+ * The user's saved views, oldest first
+ */
+export async function listSavedViews(): Promise<SavedView[]> {
+  const userId = await getUserId();
+
+  const { data, error } = await supabase
+    .from('saved_views')
+    .select(SAVED_VIEW_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at');
+
+  if (error) throw error;
+  return (data || []).map(parseSavedView);
+}
+
+export async function createSavedView(
+  view: SavedViewInput
+): Promise<SavedView> {
+  const userId = await getUserId();
+
+  const { data, error } = await supabase
+    .from('saved_views')
+    .insert({ ...view, user_id: userId })
+    .select(SAVED_VIEW_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return parseSavedView(data);
+}
+
+export async function deleteSavedView(id: string): Promise<void> {
+  const userId = await getUserId();
+
+  const { error } = await supabase
+    .from('saved_views')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
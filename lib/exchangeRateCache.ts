@@ -0,0 +1,182 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Currency } from './currencies';
+
+type CachedRate = {
+  rate: number;
+  timestamp: number;
+};
+
+interface ExchangeRates {
+  [date: string]: {
+    [fromCurrency in Currency]?: {
+      [toCurrency in Currency]?: CachedRate;
+    };
+  };
+}
+
+/**
+ * A rate served from the cache after fresh data couldn't be fetched
+ */
+export type StaleRate = {
+  rate: number;
+  // When the rate was last known to be current
+  asOf: Date;
+};
+
+// Cache exchange rates for better performance, persisted across restarts
+const exchangeRatesCache: ExchangeRates = {};
+
+// Cache expiration time (6 hours in milliseconds)
+export const CACHE_EXPIRATION = 6 * 60 * 60 * 1000;
+
+const STORAGE_KEY = 'exchange-rates-cache';
+const PERSIST_DELAY = 1000;
+
+let loadPromise: Promise<void> | null = null;
+let persistTimeout: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Load the persisted cache from AsyncStorage. Safe to call repeatedly,
+ * storage is only read once.
+ */
+export function loadRateCache(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(STORAGE_KEY);
+        if (!stored) return;
+
+        const persisted: ExchangeRates = JSON.parse(stored);
+        Object.entries(persisted).forEach(([dateStr, pairs]) => {
+          (Object.keys(pairs) as Currency[]).forEach((fromCurrency) => {
+            const rates = pairs[fromCurrency]!;
+            (Object.keys(rates) as Currency[]).forEach((toCurrency) => {
+              // Rates fetched since launch are newer than persisted ones
+              if (!getCachedRate(dateStr, fromCurrency, toCurrency)) {
+                setCachedRate(
+                  dateStr,
+                  fromCurrency,
+                  toCurrency,
+                  rates[toCurrency]!
+                );
+              }
+            });
+          });
+        });
+      } catch (error) {
+        console.error('Error loading exchange rate cache:', error);
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+function persistRateCache() {
+  if (persistTimeout) return;
+
+  // Batch writes, conversions often cache many rates at once
+  persistTimeout = setTimeout(async () => {
+    persistTimeout = null;
+    try {
+      await AsyncStorage.setItem(
+        STORAGE_KEY,
+        JSON.stringify(exchangeRatesCache)
+      );
+    } catch (error) {
+      console.error('Error saving exchange rate cache:', error);
+    }
+  }, PERSIST_DELAY);
+}
+
+function setCachedRate(
+  dateStr: string,
+  fromCurrency: Currency,
+  toCurrency: Currency,
+  entry: CachedRate
+) {
+  if (!exchangeRatesCache[dateStr]) {
+    exchangeRatesCache[dateStr] = {};
+  }
+  if (!exchangeRatesCache[dateStr][fromCurrency]) {
+    exchangeRatesCache[dateStr][fromCurrency] = {};
+  }
+  exchangeRatesCache[dateStr][fromCurrency]![toCurrency] = entry;
+}
+
+/**
+ * Get a cached rate regardless of its age
+ */
+export function getCachedRate(
+  dateStr: string,
+  fromCurrency: Currency,
+  toCurrency: Currency
+): CachedRate | undefined {
+  return exchangeRatesCache[dateStr]?.[fromCurrency]?.[toCurrency];
+}
+
+/**
+ * Get a cached rate that can still be used as is. Rates for past dates
+ * never change, only today's rate expires.
+ */
+export function getFreshCachedRate(
+  dateStr: string,
+  fromCurrency: Currency,
+  toCurrency: Currency
+): number | undefined {
+  const cached = getCachedRate(dateStr, fromCurrency, toCurrency);
+  const today = new Date().toISOString().split('T')[0];
+  if (
+    cached?.rate &&
+    (dateStr < today || Date.now() - cached.timestamp < CACHE_EXPIRATION)
+  ) {
+    return cached.rate;
+  }
+  return undefined;
+}
+
+/**
+ * Cache a rate and schedule the cache to be persisted
+ */
+export function cacheRate(
+  dateStr: string,
+  fromCurrency: Currency,
+  toCurrency: Currency,
+  rate: number
+) {
+  setCachedRate(dateStr, fromCurrency, toCurrency, {
+    rate,
+    timestamp: Date.now(),
+  });
+  persistRateCache();
+}
+
+/**
+ * Find the most recent known rate for a pair, for use when fresh data
+ * can't be fetched. Prefers the requested date (even if expired), then the
+ * nearest earlier date, then the nearest later one.
+ */
+export function findStaleRate(
+  fromCurrency: Currency,
+  toCurrency: Currency,
+  dateStr: string
+): StaleRate | null {
+  const exact = getCachedRate(dateStr, fromCurrency, toCurrency);
+  if (exact) {
+    return { rate: exact.rate, asOf: new Date(exact.timestamp) };
+  }
+
+  const dates = Object.keys(exchangeRatesCache)
+    .filter((d) => getCachedRate(d, fromCurrency, toCurrency))
+    .sort();
+  if (dates.length === 0) return null;
+
+  const nearest = dates.filter((d) => d < dateStr).pop() ?? dates[0];
+  const cached = getCachedRate(nearest, fromCurrency, toCurrency)!;
+  // A rate for another date was current on that date (or when fetched,
+  // if that was earlier)
+  const asOf = Math.min(
+    new Date(`${nearest}T23:59:59Z`).getTime(),
+    cached.timestamp
+  );
+  return { rate: cached.rate, asOf: new Date(asOf) };
+}
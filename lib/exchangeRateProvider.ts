@@ -0,0 +1,156 @@
+import { supabase } from './supabase';
+import type { Currency } from './currencies';
+import defaultFixture from './fixtures/exchange-rates.json';
+
+/**
+ * Rates quoted against a single base currency, e.g. for base USD:
+ * `{ SAR: 3.75, EGP: 48.9 }` means 1 USD = 3.75 SAR = 48.9 EGP
+ */
+export type QuoteRates = { [currency in Currency]?: number };
+
+/**
+ * A source of exchange rates. The DB/cache layering in `getExchangeRate`
+ * sits on top of whichever provider is configured. Only the Edge Function
+ * writes to exchange_rates, providers on the client never store rates.
+ */
+export interface ExchangeRateProvider {
+  readonly name: string;
+  getRates(baseCurrency: Currency, date: Date): Promise<QuoteRates>;
+}
+
+export type ExchangeRateProviderName = 'edge-function' | 'fixture';
+
+/**
+ * Re-quote rates from one base currency to another
+ */
+function requote(
+  rates: QuoteRates,
+  fromBase: Currency,
+  toBase: Currency
+): QuoteRates {
+  const all: QuoteRates = { ...rates, [fromBase]: 1 };
+  const baseRate = all[toBase];
+  if (!baseRate) {
+    throw new Error(`No conversion rate found for ${toBase}`);
+  }
+
+  const result: QuoteRates = {};
+  (Object.keys(all) as Currency[]).forEach((currency) => {
+    result[currency] = all[currency]! / baseRate;
+  });
+  return result;
+}
+
+/**
+ * Response of the refresh-exchange-rates Edge Function
+ */
+type RefreshResponse = {
+  base: Currency;
+  date: string;
+  rates: QuoteRates;
+  // Currencies whose rate was copied from an earlier date
+  backfilled: Currency[];
+};
+
+/**
+ * Gets rates from the refresh-exchange-rates Edge Function, which fetches
+ * them from ExchangeRate-API and stores them in exchange_rates. The API key
+ * never reaches the client.
+ */
+export class EdgeFunctionExchangeRateProvider implements ExchangeRateProvider {
+  readonly name = 'edge-function';
+
+  constructor(private readonly functionName = 'refresh-exchange-rates') {}
+
+  async getRates(baseCurrency: Currency, date: Date): Promise<QuoteRates> {
+    const { data, error } = await supabase.functions.invoke<RefreshResponse>(
+      this.functionName,
+      { body: { date: date.toISOString().split('T')[0] } }
+    );
+
+    if (error) throw error;
+    if (!data) throw new Error('No rates returned by the refresh function');
+
+    return data.base === baseCurrency
+      ? data.rates
+      : requote(data.rates, data.base, baseCurrency);
+  }
+}
+
+/**
+ * Fixture file shape: rates against `base`, keyed by ISO date
+ */
+export type ExchangeRateFixture = {
+  base: Currency;
+  rates: {
+    [date: string]: QuoteRates;
+  };
+};
+
+/**
+ * Serves rates from a fixture file, for tests and offline development.
+ * Uses the latest fixture date on or before the requested date.
+ */
+export class FixtureExchangeRateProvider implements ExchangeRateProvider {
+  readonly name = 'fixture';
+
+  constructor(
+    private readonly fixture: ExchangeRateFixture = defaultFixture as ExchangeRateFixture
+  ) {}
+
+  async getRates(baseCurrency: Currency, date: Date): Promise<QuoteRates> {
+    const dateStr = date.toISOString().split('T')[0];
+    const dates = Object.keys(this.fixture.rates).sort();
+    const fixtureDate = dates.filter((d) => d <= dateStr).pop() ?? dates[0];
+
+    if (!fixtureDate) {
+      throw new Error('Exchange rate fixture has no rates');
+    }
+
+    return requote(
+      this.fixture.rates[fixtureDate],
+      this.fixture.base,
+      baseCurrency
+    );
+  }
+}
+
+let provider: ExchangeRateProvider | null = null;
+
+/**
+ * Create the provider named by EXPO_PUBLIC_EXCHANGE_RATE_PROVIDER
+ * (defaults to edge-function)
+ */
+export function createExchangeRateProvider(
+  name: ExchangeRateProviderName = (process.env
+    .EXPO_PUBLIC_EXCHANGE_RATE_PROVIDER ||
+    'edge-function') as ExchangeRateProviderName
+): ExchangeRateProvider {
+  switch (name) {
+    case 'fixture':
+      return new FixtureExchangeRateProvider();
+    case 'edge-function':
+      return new EdgeFunctionExchangeRateProvider();
+    default:
+      throw new Error(`Unknown exchange rate provider: ${name}`);
+  }
+}
+
+/**
+ * Get the configured provider, creating it on first use
+ */
+export function getExchangeRateProvider(): ExchangeRateProvider {
+  if (!provider) {
+    provider = createExchangeRateProvider();
+  }
+  return provider;
+}
+
+/**
+ * Override the configured provider, e.g. with a fixture provider in tests
+ */
+export function setExchangeRateProvider(
+  nextProvider: ExchangeRateProvider | null
+) {
+  provider = nextProvider;
+}
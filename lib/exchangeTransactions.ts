@@ -0,0 +1,46 @@
+import { Money } from './money';
+
+/**
+ * How a currency exchange compares to the market rate
+ */
+export type ExchangeSummary = {
+  // Destination per unit of source, before the fee
+  quotedRate: number;
+  // Destination per unit of source, including the fee
+  effectiveRate: number;
+  marketRate: number | null;
+  // Percentage the effective rate is above (positive) or below the market
+  // rate
+  spread: number | null;
+  // What the exchange cost compared to converting at the market rate with
+  // no fee, in the source currency
+  cost: Money | null;
+};
+
+/**
+ * Compare an exchange of `source` (plus `fee`, in the source currency)
+ * into `destination` with the market rate
+ */
+export function summarizeExchange(
+  source: Money,
+  destination: Money,
+  fee: Money,
+  marketRate: number | null
+): ExchangeSummary {
+  const quotedRate = destination.toMajor() / source.toMajor();
+  const effectiveRate = destination.toMajor() / source.add(fee).toMajor();
+
+  if (!marketRate) {
+    return { quotedRate, effectiveRate, marketRate, spread: null, cost: null };
+  }
+
+  return {
+    quotedRate,
+    effectiveRate,
+    marketRate,
+    spread: (effectiveRate / marketRate - 1) * 100,
+    cost: source
+      .add(fee)
+      .subtract(destination.convert(1 / marketRate, source.currency)),
+  };
+}
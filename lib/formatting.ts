@@ -0,0 +1,94 @@
+import { Currency, getCurrencyInfo } from './currencies';
+
+export type NumberingSystem = 'latn' | 'arab';
+
+/**
+ * Per-user number formatting preferences
+ */
+export type FormatPreferences = {
+  locale: string;
+  // 'arab' renders Arabic-Indic digits (٠١٢٣), 'latn' renders 0123
+  numberingSystem: NumberingSystem;
+};
+
+export const SUPPORTED_LOCALES = [
+  { code: 'en-US', name: 'English (United States)' },
+  { code: 'ar-EG', name: 'العربية (مصر)' },
+  { code: 'ar-SA', name: 'العربية (السعودية)' },
+] as const;
+
+export const DEFAULT_FORMAT_PREFERENCES: FormatPreferences = {
+  locale: 'en-US',
+  numberingSystem: 'latn',
+};
+
+// Creating formatters is slow, so reuse them per locale/currency/style
+const formatters = new Map<string, Intl.NumberFormat>();
+
+function getFormatter(
+  preferences: FormatPreferences,
+  options: Intl.NumberFormatOptions
+): Intl.NumberFormat {
+  const locale = `${preferences.locale}-u-nu-${preferences.numberingSystem}`;
+  const key = `${locale}|${JSON.stringify(options)}`;
+
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, options);
+    formatters.set(key, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Whether a locale is written right to left
+ */
+export function isRTLLocale(locale: string): boolean {
+  return ['ar', 'fa', 'he', 'ur'].includes(locale.split('-')[0]);
+}
+
+/**
+ * Format an amount with its currency symbol, using the currency's minor
+ * units and the locale's symbol placement
+ */
+export function formatCurrencyAmount(
+  amount: number,
+  currency: Currency,
+  preferences: FormatPreferences = DEFAULT_FORMAT_PREFERENCES
+): string {
+  const { minorUnits } = getCurrencyInfo(currency);
+  return getFormatter(preferences, {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: minorUnits,
+    maximumFractionDigits: minorUnits,
+  }).format(amount);
+}
+
+/**
+ * Format an amount in compact notation, e.g. $12.5K, for chart axes and
+ * other tight spaces
+ */
+export function formatCompactAmount(
+  amount: number,
+  currency: Currency,
+  preferences: FormatPreferences = DEFAULT_FORMAT_PREFERENCES
+): string {
+  return getFormatter(preferences, {
+    style: 'currency',
+    currency,
+    notation: 'compact',
+    maximumFractionDigits: 1,
+  }).format(amount);
+}
+
+/**
+ * Format a plain number, e.g. an exchange rate
+ */
+export function formatNumber(
+  value: number,
+  preferences: FormatPreferences = DEFAULT_FORMAT_PREFERENCES,
+  maximumFractionDigits = 6
+): string {
+  return getFormatter(preferences, { maximumFractionDigits }).format(value);
+}
@@ -0,0 +1,184 @@
+import { ConversionItem, Currency, convertMany, toDateKey } from './currency';
+import { TransactionFlow, listTransactionFlows } from './data';
+import { Money } from './money';
+import { RatePeriod, getPeriodStart } from './rateHistory';
+
+/**
+ * How one currency's holdings moved the net position over a period, in the
+ * report currency
+ */
+export type CurrencyFxEffect = {
+  currency: Currency;
+  // Holdings in `currency`
+  openingBalance: Money;
+  closingBalance: Money;
+  // Holdings valued at the rates on the first and last day
+  openingValue: Money;
+  closingValue: Money;
+  // Income, expenses and exchanges in the period, each at its own date's
+  // rate
+  cashFlow: Money;
+  // Unrealized gain (positive) or loss from rates moving:
+  // closingValue - openingValue - cashFlow
+  revaluation: Money;
+};
+
+export type FxReport = {
+  startDate: string;
+  endDate: string;
+  currencies: CurrencyFxEffect[];
+  total: {
+    openingValue: Money;
+    closingValue: Money;
+    cashFlow: Money;
+    revaluation: Money;
+  };
+  // Set when conversions fell back to stale cached rates
+  asOf: Date | null;
+};
+
+type Flow = { amount: Money; dateStr: string };
+
+/**
+ * What a transaction adds to or takes from each currency's holdings. An
+ * exchange takes the amount and fee from one currency and adds the amount
+ * received to the other.
+ */
+function getFlows(transaction: TransactionFlow): Flow[] {
+  const dateStr = toDateKey(new Date(transaction.date));
+  const { currency } = transaction;
+  const amount = Money.fromMajor(transaction.amount, currency);
+
+  if (transaction.type === 'income') return [{ amount, dateStr }];
+  if (transaction.type === 'expense') {
+    return [{ amount: amount.negate(), dateStr }];
+  }
+  return [
+    {
+      amount: amount.add(Money.fromMajor(transaction.fee, currency)).negate(),
+      dateStr,
+    },
+    {
+      amount: Money.fromMajor(
+        transaction.destination_amount!,
+        transaction.destination_currency!
+      ),
+      dateStr,
+    },
+  ];
+}
+
+/**
+ * Split the change in net position over a period into cash flow and
+ * revaluation, per currency held.
+ *
+ * Holdings are the running sum of each currency's flows. They're valued
+ * with the stored rates for the first and last day of the period, and each
+ * flow in the period with its own date's rate, so whatever is left of the
+ * change in value is down to rates moving.
+ */
+export async function getFxReport(
+  period: RatePeriod,
+  toCurrency: Currency
+): Promise<FxReport> {
+  const startDate = toDateKey(getPeriodStart(period));
+  const endDate = toDateKey(new Date());
+
+  const transactions = await listTransactionFlows();
+
+  const opening = new Map<Currency, Money>();
+  const closing = new Map<Currency, Money>();
+  const periodFlows: Flow[] = [];
+
+  transactions.flatMap(getFlows).forEach((flow) => {
+    const { currency } = flow.amount;
+    if (flow.dateStr < startDate) {
+      opening.set(
+        currency,
+        (opening.get(currency) || Money.zero(currency)).add(flow.amount)
+      );
+    } else {
+      periodFlows.push(flow);
+    }
+    closing.set(
+      currency,
+      (closing.get(currency) || Money.zero(currency)).add(flow.amount)
+    );
+  });
+
+  const currencies = Array.from(closing.keys());
+  const openingBalances = currencies.map(
+    (currency) => opening.get(currency) || Money.zero(currency)
+  );
+  const closingBalances = currencies.map((currency) => closing.get(currency)!);
+
+  // One batch, so each (currency, date) rate is only resolved once
+  const toItem = (amount: Money, date: string): ConversionItem => ({
+    amount: amount.toMajor(),
+    currency: amount.currency,
+    date,
+  });
+  const { amounts, asOf } = await convertMany(
+    [
+      ...openingBalances.map((balance) => toItem(balance, startDate)),
+      ...closingBalances.map((balance) => toItem(balance, endDate)),
+      ...periodFlows.map((flow) => toItem(flow.amount, flow.dateStr)),
+    ],
+    toCurrency
+  );
+  const converted = (index: number) =>
+    Money.fromMajor(amounts[index], toCurrency);
+
+  const cashFlows = new Map<Currency, Money>();
+  periodFlows.forEach((flow, index) => {
+    const { currency } = flow.amount;
+    cashFlows.set(
+      currency,
+      (cashFlows.get(currency) || Money.zero(toCurrency)).add(
+        converted(currencies.length * 2 + index)
+      )
+    );
+  });
+
+  const effects: CurrencyFxEffect[] = currencies
+    .map((currency, index) => {
+      const openingValue = converted(index);
+      const closingValue = converted(currencies.length + index);
+      const cashFlow = cashFlows.get(currency) || Money.zero(toCurrency);
+      return {
+        currency,
+        openingBalance: openingBalances[index],
+        closingBalance: closingBalances[index],
+        openingValue,
+        closingValue,
+        cashFlow,
+        revaluation: closingValue.subtract(openingValue).subtract(cashFlow),
+      };
+    })
+    .filter(
+      (effect) =>
+        !effect.openingBalance.isZero() ||
+        !effect.closingBalance.isZero() ||
+        !effect.cashFlow.isZero()
+    )
+    // Biggest revaluation first
+    .sort(
+      (a, b) => Math.abs(b.revaluation.minor) - Math.abs(a.revaluation.minor)
+    );
+
+  const sum = (pick: (effect: CurrencyFxEffect) => Money) =>
+    Money.sum(effects.map(pick), toCurrency);
+
+  return {
+    startDate,
+    endDate,
+    currencies: effects,
+    total: {
+      openingValue: sum((effect) => effect.openingValue),
+      closingValue: sum((effect) => effect.closingValue),
+      cashFlow: sum((effect) => effect.cashFlow),
+      revaluation: sum((effect) => effect.revaluation),
+    },
+    asOf,
+  };
+}
@@ -0,0 +1,171 @@
+import { Currency, getCurrencyInfo } from './currencies';
+
+export type RoundingMode = 'half-up' | 'half-even';
+
+function minorFactor(currency: Currency): number {
+  return 10 ** getCurrencyInfo(currency).minorUnits;
+}
+
+/**
+ * Round a fractional number of minor units to an integer. 'half-up' rounds
+ * halves away from zero, 'half-even' rounds them to the nearest even unit
+ * (banker's rounding).
+ */
+function roundMinor(value: number, mode: RoundingMode): number {
+  // Strip float noise like 1.0049999999 before deciding which way to round
+  const cleaned = Number(value.toPrecision(15));
+  const sign = Math.sign(cleaned);
+  const abs = Math.abs(cleaned);
+  const floor = Math.floor(abs);
+  const diff = abs - floor;
+
+  let rounded: number;
+  if (diff > 0.5) {
+    rounded = floor + 1;
+  } else if (diff < 0.5) {
+    rounded = floor;
+  } else {
+    rounded = mode === 'half-even' && floor % 2 === 0 ? floor : floor + 1;
+  }
+  return sign * rounded || 0;
+}
+
+/**
+ * An amount of money stored as an integer number of minor units (cents,
+ * fils…) plus its currency, so sums reconcile exactly.
+ */
+export class Money {
+  private constructor(readonly minor: number, readonly currency: Currency) {}
+
+  static zero(currency: Currency): Money {
+    return new Money(0, currency);
+  }
+
+  static fromMinor(minor: number, currency: Currency): Money {
+    if (!Number.isSafeInteger(minor)) {
+      throw new Error(`Invalid minor unit amount: ${minor}`);
+    }
+    return new Money(minor, currency);
+  }
+
+  /**
+   * Create from a decimal amount, e.g. a database `decimal` column,
+   * rounding to the currency's minor units
+   */
+  static fromMajor(
+    amount: number | string,
+    currency: Currency,
+    mode: RoundingMode = 'half-up'
+  ): Money {
+    return new Money(
+      roundMinor(Number(amount) * minorFactor(currency), mode),
+      currency
+    );
+  }
+
+  /**
+   * Parse user input like "1234.5" without going through a float. Returns
+   * null if the input isn't a valid amount for the currency.
+   */
+  static parse(input: string, currency: Currency): Money | null {
+    const match = input.trim().match(/^(-)?(\d*)(?:\.(\d*))?$/);
+    if (!match || (!match[2] && !match[3])) return null;
+
+    const { minorUnits } = getCurrencyInfo(currency);
+    const fraction = match[3] ?? '';
+    if (fraction.length > minorUnits) return null;
+
+    const minor = Number((match[2] || '0') + fraction.padEnd(minorUnits, '0'));
+    if (!Number.isSafeInteger(minor)) return null;
+    return new Money(match[1] ? -minor : minor, currency);
+  }
+
+  /**
+   * Sum amounts in one currency
+   */
+  static sum(amounts: Money[], currency: Currency): Money {
+    return amounts.reduce(
+      (total, amount) => total.add(amount),
+      Money.zero(currency)
+    );
+  }
+
+  private assertSameCurrency(other: Money) {
+    if (other.currency !== this.currency) {
+      throw new Error(
+        `Cannot combine ${this.currency} with ${other.currency} amounts`
+      );
+    }
+  }
+
+  add(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.fromMinor(this.minor + other.minor, this.currency);
+  }
+
+  subtract(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.fromMinor(this.minor - other.minor, this.currency);
+  }
+
+  negate(): Money {
+    return new Money(-this.minor || 0, this.currency);
+  }
+
+  isZero(): boolean {
+    return this.minor === 0;
+  }
+
+  isNegative(): boolean {
+    return this.minor < 0;
+  }
+
+  /**
+   * Split into parts proportional to `ratios` without losing a minor unit:
+   * leftover units go to the first parts. E.g. $100 split 1:1:1 gives
+   * $33.34, $33.33, $33.33.
+   */
+  allocate(ratios: number[]): Money[] {
+    const total = ratios.reduce((sum, ratio) => sum + ratio, 0);
+    if (ratios.length === 0 || total <= 0) {
+      throw new Error('Cannot allocate with empty or zero ratios');
+    }
+
+    const parts = ratios.map((ratio) =>
+      Math.trunc((this.minor * ratio) / total)
+    );
+    let remainder = this.minor - parts.reduce((sum, part) => sum + part, 0);
+    const step = Math.sign(remainder);
+    for (let i = 0; remainder !== 0; i = (i + 1) % parts.length) {
+      parts[i] += step;
+      remainder -= step;
+    }
+    return parts.map((part) => new Money(part, this.currency));
+  }
+
+  /**
+   * Convert at `rate` (units of `toCurrency` per unit of this currency),
+   * rounding once to the target currency's minor units
+   */
+  convert(
+    rate: number,
+    toCurrency: Currency,
+    mode: RoundingMode = 'half-up'
+  ): Money {
+    if (toCurrency === this.currency && rate === 1) return this;
+
+    const minor =
+      (this.minor / minorFactor(this.currency)) *
+      rate *
+      minorFactor(toCurrency);
+    return new Money(roundMinor(minor, mode), toCurrency);
+  }
+
+  /**
+   * The decimal amount, e.g. for storing in a `decimal` column or passing
+   * to a formatter
+   */
+  toMajor(): number {
+    return this.minor / minorFactor(this.currency);
+  }
+}
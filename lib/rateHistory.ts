@@ -0,0 +1,165 @@
+import { supabase } from './supabase';
+import { listTransactions } from './data';
+import { BASE_CURRENCY, Currency, crossRate, toDateKey } from './currency';
+
+export type RatePeriod = '1M' | '3M' | '6M' | '1Y';
+
+export const RATE_PERIODS: {
+  value: RatePeriod;
+  label: string;
+  months: number;
+}[] = [
+  { value: '1M', label: '1 Month', months: 1 },
+  { value: '3M', label: '3 Months', months: 3 },
+  { value: '6M', label: '6 Months', months: 6 },
+  { value: '1Y', label: '1 Year', months: 12 },
+];
+
+export type RateHistoryTransaction = {
+  id: string;
+  amount: number;
+  currency: Currency;
+  type: 'income' | 'expense' | 'exchange';
+  description: string;
+  date: string;
+  // Locked rate, when the transaction was converted into the pair's other
+  // currency at entry time
+  exchange_rate: number | null;
+};
+
+/**
+ * A stored rate for one date, with the transactions converted at it
+ */
+export type RatePoint = {
+  date: string;
+  rate: number;
+  // True if either side of the pair was an estimate from an earlier date
+  isBackfilled: boolean;
+  transactions: RateHistoryTransaction[];
+};
+
+export type RateStats = {
+  min: number;
+  max: number;
+  average: number;
+  // Percentage change from the first to the last rate in the period
+  change: number;
+};
+
+/**
+ * First date of a period ending today
+ */
+export function getPeriodStart(period: RatePeriod): Date {
+  const { months } = RATE_PERIODS.find((p) => p.value === period)!;
+  const start = new Date();
+  start.setUTCMonth(start.getUTCMonth() - months);
+  return start;
+}
+
+/**
+ * Load the stored rates for a pair over a period, oldest first.
+ *
+ * Rates are derived from the stored base rates, so only dates with a base
+ * rate for both currencies are included. Each transaction in the period
+ * that converts between the two currencies is attached to the rate it was
+ * converted at: the latest stored rate on or before its date.
+ */
+export async function getRateHistory(
+  fromCurrency: Currency,
+  toCurrency: Currency,
+  period: RatePeriod,
+  preferredCurrency: Currency
+): Promise<RatePoint[]> {
+  if (fromCurrency === toCurrency) return [];
+
+  const startDate = toDateKey(getPeriodStart(period));
+  const quoted = [fromCurrency, toCurrency].filter(
+    (currency) => currency !== BASE_CURRENCY
+  );
+
+  const [{ data: rates, error }, transactions] = await Promise.all([
+    supabase
+      .from('exchange_rates')
+      .select('to_currency, date, rate, is_backfilled')
+      .eq('from_currency', BASE_CURRENCY)
+      .in('to_currency', quoted)
+      .gte('date', startDate)
+      .order('date', { ascending: true }),
+    listTransactions({
+      currencies: [fromCurrency, toCurrency],
+      from: new Date(startDate),
+    }),
+  ]);
+
+  if (error) throw error;
+
+  // Base rates by date, with the base currency itself always 1
+  const byDate = new Map<
+    string,
+    { [currency: string]: { rate: number; isBackfilled: boolean } }
+  >();
+  (rates || []).forEach((row) => {
+    if (!byDate.has(row.date)) {
+      byDate.set(row.date, {
+        [BASE_CURRENCY]: { rate: 1, isBackfilled: false },
+      });
+    }
+    byDate.get(row.date)![row.to_currency] = {
+      rate: Number(row.rate),
+      isBackfilled: row.is_backfilled,
+    };
+  });
+
+  const points: RatePoint[] = [];
+  byDate.forEach((baseRates, date) => {
+    const from = baseRates[fromCurrency];
+    const to = baseRates[toCurrency];
+    if (!from || !to) return;
+    points.push({
+      date,
+      rate: crossRate(from.rate, to.rate),
+      isBackfilled: from.isBackfilled || to.isBackfilled,
+      transactions: [],
+    });
+  });
+
+  // Oldest first, like the points
+  transactions.reverse().forEach((transaction) => {
+    // Unlocked transactions are converted into the preferred currency
+    const target = transaction.base_currency || preferredCurrency;
+    const other =
+      transaction.currency === fromCurrency ? toCurrency : fromCurrency;
+    if (target !== other) return;
+
+    const dateStr = toDateKey(new Date(transaction.date));
+    const point = points.filter((p) => p.date <= dateStr).pop();
+    point?.transactions.push({
+      id: transaction.id,
+      amount: transaction.amount,
+      currency: transaction.currency,
+      type: transaction.type,
+      description: transaction.description,
+      date: transaction.date,
+      exchange_rate: transaction.exchange_rate,
+    });
+  });
+
+  return points;
+}
+
+/**
+ * Min, max, average and percentage change over a series of rates
+ */
+export function getRateStats(points: RatePoint[]): RateStats | null {
+  if (points.length === 0) return null;
+
+  const rates = points.map((p) => p.rate);
+  const first = rates[0];
+  const last = rates[rates.length - 1];
+  return {
+    min: Math.min(...rates),
+    max: Math.max(...rates),
+    average: rates.reduce((sum, rate) => sum + rate, 0) / rates.length,
+    change: ((last - first) / first) * 100,
+  };
+}
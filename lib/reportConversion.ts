@@ -0,0 +1,74 @@
+import {
+  ConversionBatch,
+  ConversionItem,
+  Currency,
+  convertMany,
+} from './currency';
+import { Money } from './money';
+
+/**
+ * How reports convert amounts: at each transaction's own date, or
+ * everything at today's rate to see what it's worth now
+ */
+export type ConversionMode = 'historical' | 'current';
+
+export const CONVERSION_MODES: { mode: ConversionMode; label: string }[] = [
+  { mode: 'historical', label: 'Transaction date' },
+  { mode: 'current', label: "Today's rate" },
+];
+
+/**
+ * A report's amounts converted both ways, so the mode not shown can still
+ * be compared against
+ */
+export type ReportConversion = {
+  historical: ConversionBatch;
+  current: ConversionBatch;
+};
+
+/**
+ * Convert a report's transactions at their own dates and at today's rate.
+ * Locked conversions only apply to the historical amounts.
+ */
+export async function convertReport(
+  items: ConversionItem[],
+  toCurrency: Currency,
+  options: { recompute?: boolean } = {}
+): Promise<ReportConversion> {
+  const [historical, current] = await Promise.all([
+    convertMany(items, toCurrency, options),
+    convertMany(items, toCurrency, { at: new Date() }),
+  ]);
+  return { historical, current };
+}
+
+/**
+ * Income minus expenses. Exchanges only move money between currencies and
+ * are left out.
+ */
+export function netTotal(
+  items: { type: string }[],
+  amounts: number[],
+  currency: Currency
+): Money {
+  return items.reduce((total, item, index) => {
+    const amount = Money.fromMajor(amounts[index], currency);
+    if (item.type === 'income') return total.add(amount);
+    if (item.type === 'expense') return total.subtract(amount);
+    return total;
+  }, Money.zero(currency));
+}
+
+/**
+ * How much converting at today's rate instead of each transaction's date
+ * changes the net total
+ */
+export function getFxEffect(
+  items: { type: string }[],
+  conversion: ReportConversion,
+  currency: Currency
+): Money {
+  return netTotal(items, conversion.current.amounts, currency).subtract(
+    netTotal(items, conversion.historical.amounts, currency)
+  );
+}
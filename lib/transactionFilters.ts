@@ -0,0 +1,108 @@
+import { endOfDay, format, isValid, parse, startOfDay } from 'date-fns';
+import { isCurrency } from './currencies';
+import {
+  DATE_PERIODS,
+  DatePeriod,
+  TransactionFilters,
+  TransactionType,
+} from './data';
+
+/**
+ * Transaction filters as route params, so a filtered list can be linked
+ * to. Lists are comma separated and dates are yyyy-MM-dd. A period is
+ * used instead of the dates.
+ */
+export type TransactionFilterParams = {
+  q?: string;
+  types?: string;
+  categories?: string;
+  uncategorized?: string;
+  currencies?: string;
+  from?: string;
+  to?: string;
+  period?: string;
+  min?: string;
+  max?: string;
+};
+
+const TRANSACTION_TYPES: TransactionType[] = ['income', 'expense', 'exchange'];
+
+// Ids end up in a query filter, so links can only pass well-formed ones
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function parseList(value: string | undefined): string[] | undefined {
+  const items = value?.split(',').filter(Boolean);
+  return items && items.length > 0 ? items : undefined;
+}
+
+function parseDay(value: string | undefined): Date | undefined {
+  if (!value) return undefined;
+  const date = parse(value, 'yyyy-MM-dd', new Date());
+  return isValid(date) ? date : undefined;
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  const number = value ? Number(value) : NaN;
+  return isFinite(number) ? number : undefined;
+}
+
+/**
+ * The filters in a route's params, ignoring any that don't parse
+ */
+export function parseFilterParams(
+  params: TransactionFilterParams
+): TransactionFilters {
+  const from = parseDay(params.from);
+  const to = parseDay(params.to);
+  const types = parseList(params.types)?.filter(
+    (type): type is TransactionType =>
+      TRANSACTION_TYPES.includes(type as TransactionType)
+  );
+  const categoryIds = parseList(params.categories)?.filter((id) =>
+    UUID_PATTERN.test(id)
+  );
+  const currencies = parseList(params.currencies)?.filter(isCurrency);
+  const period = DATE_PERIODS.find(
+    (option) => option.period === params.period
+  )?.period;
+
+  return {
+    search: params.q?.trim() || undefined,
+    types: types?.length ? types : undefined,
+    categoryIds: categoryIds?.length ? categoryIds : undefined,
+    uncategorized: params.uncategorized === 'true' || undefined,
+    currencies: currencies?.length ? currencies : undefined,
+    // Whole days, so `to` includes everything on that day
+    from: !period && from ? startOfDay(from) : undefined,
+    to: !period && to ? endOfDay(to) : undefined,
+    period,
+    minAmount: parseNumber(params.min),
+    maxAmount: parseNumber(params.max),
+  };
+}
+
+/**
+ * Route params for `filters`. Unset filters are empty rather than left
+ * out, so they clear the ones already in the route.
+ */
+export function toFilterParams(
+  filters: TransactionFilters
+): Required<TransactionFilterParams> {
+  return {
+    q: filters.search ?? '',
+    types: filters.types?.join(',') ?? '',
+    categories: filters.categoryIds?.join(',') ?? '',
+    uncategorized: filters.uncategorized ? 'true' : '',
+    currencies: filters.currencies?.join(',') ?? '',
+    from: filters.from ? format(filters.from, 'yyyy-MM-dd') : '',
+    to: filters.to ? format(filters.to, 'yyyy-MM-dd') : '',
+    period: filters.period ?? '',
+    min: filters.minAmount?.toString() ?? '',
+    max: filters.maxAmount?.toString() ?? '',
+  };
+}
+
+export function hasFilters(filters: TransactionFilters): boolean {
+  return Object.values(filters).some((value) => value !== undefined);
+}
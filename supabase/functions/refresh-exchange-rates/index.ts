@@ -0,0 +1,63 @@
+/**
+ * Refresh exchange rates from ExchangeRate-API into exchange_rates.
+ *
+ * This function is the only writer of exchange_rates, so the API key stays
+ * server side. It runs on a schedule (see the
+ * 20250502000000_schedule_exchange_rate_refresh migration) and on demand
+ * when the app needs a rate it doesn't have yet.
+ *
+ * POST { "date"?: "YYYY-MM-DD" }, defaults to today. Responds with
+ * { base, date, rates, backfilled }: rates against `base` for every
+ * currency in use, and the currencies whose rate is an estimate copied
+ * from an earlier date because the API couldn't be reached.
+ *
+ * Secrets:
+ *   EXCHANGE_RATE_API_KEY  ExchangeRate-API key
+ *   EXCHANGE_RATE_API_URL  API base URL, point it at upstream_stub.ts to
+ *                          run without the real API
+ *   RATE_FALLBACK_DAYS     How far back to look for an estimate (default 7)
+ *
+ * Locally: supabase functions serve --env-file supabase/functions/.env
+ * Tests: npm test
+ */
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { refreshRates, toDateKey } from './rates.ts';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  { auth: { persistSession: false } }
+);
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+Deno.serve(async (req) => {
+  try {
+    const body =
+      req.method === 'POST' ? await req.json().catch(() => ({})) : {};
+    const dateStr: string = body.date || toDateKey(new Date());
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(dateStr) || isNaN(Date.parse(dateStr))) {
+      return json({ error: `Invalid date: ${dateStr}` }, 400);
+    }
+    if (dateStr > toDateKey(new Date())) {
+      return json({ error: 'Rates for future dates are not available' }, 400);
+    }
+
+    return json(await refreshRates(supabase, dateStr));
+  } catch (error) {
+    console.error('Error refreshing exchange rates:', error);
+    return json(
+      {
+        error:
+          error instanceof Error ? error.message : 'Failed to refresh rates',
+      },
+      502
+    );
+  }
+});
@@ -0,0 +1,183 @@
+/**
+ * deno test --allow-net --allow-env supabase/functions
+ */
+import assert from 'node:assert/strict';
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { refreshRates, toDateKey } from './rates.ts';
+import { startUpstreamStub } from './upstream_stub.ts';
+
+type Row = { [column: string]: unknown };
+
+/**
+ * Just enough of the Supabase client for refreshRates, over rows in memory
+ */
+function fakeSupabase(tables: { [table: string]: Row[] }, inUse: string[]) {
+  function query(table: string) {
+    const filters: ((row: Row) => boolean)[] = [];
+    let order: { column: string; ascending: boolean } | null = null;
+
+    const builder = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      in: (column: string, values: unknown[]) => {
+        filters.push((row) => values.includes(row[column]));
+        return builder;
+      },
+      lt: (column: string, value: string) => {
+        filters.push((row) => String(row[column]) < value);
+        return builder;
+      },
+      gte: (column: string, value: string) => {
+        filters.push((row) => String(row[column]) >= value);
+        return builder;
+      },
+      order: (column: string, options: { ascending: boolean }) => {
+        order = { column, ascending: options.ascending };
+        return builder;
+      },
+      upsert: (rows: Row[], options: { onConflict: string }) => {
+        const keys = options.onConflict.split(',');
+        rows.forEach((row) => {
+          const index = tables[table].findIndex((existing) =>
+            keys.every((key) => existing[key] === row[key])
+          );
+          if (index === -1) tables[table].push(row);
+          else tables[table][index] = row;
+        });
+        return Promise.resolve({ error: null });
+      },
+      then: (resolve: (result: { data: Row[]; error: null }) => void) => {
+        const data = tables[table].filter((row) =>
+          filters.every((f) => f(row))
+        );
+        if (order) {
+          const { column, ascending } = order;
+          data.sort(
+            (a, b) =>
+              (String(a[column]) < String(b[column]) ? -1 : 1) *
+              (ascending ? 1 : -1)
+          );
+        }
+        resolve({ data, error: null });
+      },
+    };
+    return builder;
+  }
+
+  return {
+    from: query,
+    rpc: () => Promise.resolve({ data: inUse, error: null }),
+  } as unknown as SupabaseClient;
+}
+
+async function withStub(
+  test: (stub: ReturnType<typeof startUpstreamStub>) => Promise<void>
+) {
+  const stub = startUpstreamStub();
+  Deno.env.set('EXCHANGE_RATE_API_URL', stub.url);
+  Deno.env.set('EXCHANGE_RATE_API_KEY', 'test-key');
+  try {
+    await test(stub);
+  } finally {
+    await stub.close();
+  }
+}
+
+Deno.test('fetches and stores rates missing for today', () =>
+  withStub(async (stub) => {
+    stub.latest = { USD: 1, EGP: 48.5, SAR: 3.75 };
+    const exchangeRates: Row[] = [];
+    const supabase = fakeSupabase({ exchange_rates: exchangeRates }, [
+      'USD',
+      'EGP',
+      'SAR',
+    ]);
+    const today = toDateKey(new Date());
+
+    const result = await refreshRates(supabase, today);
+
+    assert.deepEqual(stub.requests, ['/test-key/latest/USD']);
+    assert.deepEqual(result.rates, { EGP: 48.5, SAR: 3.75 });
+    assert.deepEqual(result.backfilled, []);
+    assert.deepEqual(
+      exchangeRates.map((row) => [
+        row.to_currency,
+        row.rate,
+        row.is_backfilled,
+      ]),
+      [
+        ['EGP', 48.5, false],
+        ['SAR', 3.75, false],
+      ]
+    );
+  })
+);
+
+Deno.test('falls back to earlier stored rates when the API fails', () =>
+  withStub(async (stub) => {
+    stub.failing = true;
+    const exchangeRates: Row[] = [
+      {
+        from_currency: 'USD',
+        to_currency: 'EGP',
+        date: '2025-01-06',
+        rate: 50.1,
+        is_backfilled: false,
+      },
+      {
+        from_currency: 'USD',
+        to_currency: 'EGP',
+        date: '2025-01-08',
+        rate: 50.3,
+        is_backfilled: false,
+      },
+      // Estimates are never copied again
+      {
+        from_currency: 'USD',
+        to_currency: 'EGP',
+        date: '2025-01-09',
+        rate: 50.3,
+        is_backfilled: true,
+      },
+    ];
+    const supabase = fakeSupabase({ exchange_rates: exchangeRates }, ['EGP']);
+
+    const result = await refreshRates(supabase, '2025-01-10');
+
+    assert.deepEqual(stub.requests, ['/test-key/history/USD/2025/1/10']);
+    assert.deepEqual(result.rates, { EGP: 50.3 });
+    assert.deepEqual(result.backfilled, ['EGP']);
+    const stored = exchangeRates.find((row) => row.date === '2025-01-10');
+    assert.equal(stored?.is_backfilled, true);
+    assert.equal(stored?.source_date, '2025-01-08');
+  })
+);
+
+Deno.test('replaces an estimate once the API has the real rate', () =>
+  withStub(async (stub) => {
+    stub.history['2025-01-10'] = { USD: 1, EGP: 50.45 };
+    const exchangeRates: Row[] = [
+      {
+        from_currency: 'USD',
+        to_currency: 'EGP',
+        date: '2025-01-10',
+        rate: 50.3,
+        is_backfilled: true,
+        source_date: '2025-01-08',
+        updated_at: '2025-01-10T00:00:00Z',
+      },
+    ];
+    const supabase = fakeSupabase({ exchange_rates: exchangeRates }, ['EGP']);
+
+    const result = await refreshRates(supabase, '2025-01-10');
+
+    assert.deepEqual(result.rates, { EGP: 50.45 });
+    assert.equal(exchangeRates.length, 1);
+    assert.equal(exchangeRates[0].rate, 50.45);
+    assert.equal(exchangeRates[0].is_backfilled, false);
+    assert.equal(exchangeRates[0].source_date, null);
+  })
+);
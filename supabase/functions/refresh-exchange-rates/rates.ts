@@ -0,0 +1,215 @@
+/**
+ * Refreshing exchange_rates from ExchangeRate-API, apart from serving it so
+ * it can be tested against a stub of the API
+ */
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+const BASE_CURRENCY = 'USD';
+
+// Recorded on every row this function writes
+const SOURCE = 'exchangerate-api';
+
+// Significant digits kept for stored rates, matches the app
+const RATE_PRECISION = 10;
+
+// Today's rate is refetched once it's older than this, matches the app's
+// cache expiration
+const REFRESH_AFTER = 6 * 60 * 60 * 1000;
+
+type QuoteRates = { [currency: string]: number };
+
+type StoredRate = {
+  to_currency: string;
+  date: string;
+  rate: number;
+  is_backfilled: boolean;
+  updated_at: string;
+};
+
+function roundRate(rate: number): number {
+  return Number(rate.toPrecision(RATE_PRECISION));
+}
+
+export function toDateKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Fetch every rate against the base currency for a date
+ */
+async function fetchUpstreamRates(dateStr: string): Promise<QuoteRates> {
+  const apiKey = Deno.env.get('EXCHANGE_RATE_API_KEY');
+  if (!apiKey) {
+    throw new Error('Missing EXCHANGE_RATE_API_KEY secret');
+  }
+  const baseUrl =
+    Deno.env.get('EXCHANGE_RATE_API_URL') ||
+    'https://v6.exchangerate-api.com/v6';
+
+  // Past dates use the history endpoint: /history/{base}/{year}/{month}/{day}
+  const [year, month, day] = dateStr.split('-').map(Number);
+  const endpoint =
+    dateStr < toDateKey(new Date())
+      ? `history/${BASE_CURRENCY}/${year}/${month}/${day}`
+      : `latest/${BASE_CURRENCY}`;
+
+  const response = await fetch(`${baseUrl}/${apiKey}/${endpoint}`);
+  const data = await response.json();
+
+  if (data.result === 'error') {
+    throw new Error(`API Error: ${data['error-type']}`);
+  }
+
+  return data.conversion_rates;
+}
+
+/**
+ * Currencies any user has enabled, prefers or has transactions in
+ */
+async function getCurrenciesInUse(supabase: SupabaseClient): Promise<string[]> {
+  const { data, error } = await supabase.rpc('currencies_in_use');
+  if (error) throw error;
+
+  return ((data as string[] | null) || []).filter(
+    (currency) => currency !== BASE_CURRENCY
+  );
+}
+
+/**
+ * Copy the nearest earlier real rate for each currency, marked as
+ * backfilled, when the API can't provide rates for a date
+ */
+async function findEarlierRates(
+  supabase: SupabaseClient,
+  currencies: string[],
+  dateStr: string
+): Promise<{ [currency: string]: { rate: number; date: string } }> {
+  const fallbackDays = Number(Deno.env.get('RATE_FALLBACK_DAYS') ?? 7);
+  if (fallbackDays <= 0 || currencies.length === 0) return {};
+
+  const earliest = new Date(dateStr);
+  earliest.setUTCDate(earliest.getUTCDate() - fallbackDays);
+
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .select('to_currency, date, rate')
+    .eq('from_currency', BASE_CURRENCY)
+    .in('to_currency', currencies)
+    .eq('is_backfilled', false)
+    .lt('date', dateStr)
+    .gte('date', toDateKey(earliest))
+    .order('date', { ascending: false });
+
+  if (error) throw error;
+
+  const earlier: { [currency: string]: { rate: number; date: string } } = {};
+  (data || []).forEach((row) => {
+    // Rows are newest first, keep the first one per currency
+    if (!earlier[row.to_currency]) {
+      earlier[row.to_currency] = { rate: Number(row.rate), date: row.date };
+    }
+  });
+  return earlier;
+}
+
+/**
+ * Make sure exchange_rates has a rate for every currency in use on a date,
+ * fetching what's missing or out of date
+ */
+export async function refreshRates(supabase: SupabaseClient, dateStr: string) {
+  const currencies = await getCurrenciesInUse(supabase);
+  const isHistorical = dateStr < toDateKey(new Date());
+
+  const { data: stored, error: storedError } = await supabase
+    .from('exchange_rates')
+    .select('to_currency, date, rate, is_backfilled, updated_at')
+    .eq('from_currency', BASE_CURRENCY)
+    .in('to_currency', currencies)
+    .eq('date', dateStr);
+
+  if (storedError) throw storedError;
+
+  const rates: QuoteRates = {};
+  const backfilled: string[] = [];
+  (stored as StoredRate[]).forEach((row) => {
+    // Past rates never change, today's is refetched once it's old
+    if (
+      !row.is_backfilled &&
+      (isHistorical ||
+        Date.now() - new Date(row.updated_at).getTime() < REFRESH_AFTER)
+    ) {
+      rates[row.to_currency] = Number(row.rate);
+    }
+  });
+
+  const missing = currencies.filter((currency) => !rates[currency]);
+  if (missing.length === 0) {
+    return { base: BASE_CURRENCY, date: dateStr, rates, backfilled };
+  }
+
+  const now = new Date().toISOString();
+  let rows;
+  try {
+    const upstream = await fetchUpstreamRates(dateStr);
+    rows = missing
+      .filter((currency) => upstream[currency])
+      .map((currency) => {
+        rates[currency] = roundRate(upstream[currency]);
+        return {
+          from_currency: BASE_CURRENCY,
+          to_currency: currency,
+          date: dateStr,
+          rate: rates[currency],
+          is_backfilled: false,
+          source_date: null,
+          source: SOURCE,
+          updated_at: now,
+        };
+      });
+  } catch (error) {
+    console.error(`Error fetching rates for ${dateStr}:`, error);
+
+    // Fall back to what's already stored for the date, even if it's an
+    // estimate or today's rate is old, then to earlier dates
+    (stored as StoredRate[])
+      .filter((row) => !rates[row.to_currency])
+      .forEach((row) => {
+        rates[row.to_currency] = Number(row.rate);
+        if (row.is_backfilled) backfilled.push(row.to_currency);
+      });
+
+    const earlier = await findEarlierRates(
+      supabase,
+      missing.filter((currency) => !rates[currency]),
+      dateStr
+    );
+    if (Object.keys(rates).length === 0 && Object.keys(earlier).length === 0) {
+      throw error;
+    }
+
+    rows = Object.entries(earlier).map(([currency, { rate, date }]) => {
+      rates[currency] = rate;
+      backfilled.push(currency);
+      return {
+        from_currency: BASE_CURRENCY,
+        to_currency: currency,
+        date: dateStr,
+        rate,
+        is_backfilled: true,
+        source_date: date,
+        source: SOURCE,
+        updated_at: now,
+      };
+    });
+  }
+
+  if (rows.length > 0) {
+    const { error: upsertError } = await supabase
+      .from('exchange_rates')
+      .upsert(rows, { onConflict: 'from_currency,to_currency,date' });
+
+    if (upsertError) throw upsertError;
+  }
+
+  return { base: BASE_CURRENCY, date: dateStr, rates, backfilled };
+}
@@ -0,0 +1,79 @@
+/**
+ * A local stand-in for ExchangeRate-API's `latest` and `history`
+ * endpoints, for tests and for serving the function without the real API.
+ *
+ * Standalone: deno run --allow-net upstream_stub.ts [port], then set
+ * EXCHANGE_RATE_API_URL=http://localhost:<port>
+ */
+
+type QuoteRates = { [currency: string]: number };
+
+export type UpstreamStub = {
+  // Use as EXCHANGE_RATE_API_URL
+  url: string;
+  // Rates served by `latest`, and by `history` for each YYYY-MM-DD date
+  latest: QuoteRates;
+  history: { [date: string]: QuoteRates };
+  // Answer every request with an API error, like an exhausted quota
+  failing: boolean;
+  // Paths requested so far, API key included
+  requests: string[];
+  close: () => Promise<void>;
+};
+
+function respond(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+export function startUpstreamStub(port = 0): UpstreamStub {
+  const stub: UpstreamStub = {
+    url: '',
+    latest: {},
+    history: {},
+    failing: false,
+    requests: [],
+    close: async () => {},
+  };
+
+  const server = Deno.serve({ port, onListen: () => {} }, (req) => {
+    const path = new URL(req.url).pathname;
+    stub.requests.push(path);
+    if (stub.failing) {
+      return respond({ result: 'error', 'error-type': 'quota-reached' });
+    }
+
+    // /{key}/latest/{base} or /{key}/history/{base}/{year}/{month}/{day}
+    const [, , endpoint, base, year, month, day] = path.split('/');
+    if (endpoint === 'latest') {
+      return respond({
+        result: 'success',
+        base_code: base,
+        conversion_rates: stub.latest,
+      });
+    }
+    if (endpoint === 'history') {
+      const date = [year, month.padStart(2, '0'), day.padStart(2, '0')].join(
+        '-'
+      );
+      const rates = stub.history[date];
+      return respond(
+        rates
+          ? { result: 'success', base_code: base, conversion_rates: rates }
+          : { result: 'error', 'error-type': 'no-data-available' }
+      );
+    }
+    return respond({ result: 'error', 'error-type': 'unsupported-code' });
+  });
+
+  stub.url = `http://localhost:${server.addr.port}`;
+  stub.close = () => server.shutdown();
+  return stub;
+}
+
+if (import.meta.main) {
+  const stub = startUpstreamStub(Number(Deno.args[0] ?? 8787));
+  stub.latest = { USD: 1, EUR: 0.92, EGP: 48.5, SAR: 3.75 };
+  console.log(`ExchangeRate-API stub listening on ${stub.url}`);
+}
@@ -0,0 +1,25 @@
+/*
+  # Historical exchange rates
+
+  1. Changes
+    - exchange_rates
+      - is_backfilled (boolean) - rate copied from an earlier date because
+        the rate for `date` itself could not be fetched
+      - source_date (date) - the date the backfilled rate was taken from
+
+  2. Data
+    - Rows written from the `latest` endpoint under a past date are marked
+      as backfilled so the backfill job replaces them with historical rates
+*/
+
+ALTER TABLE exchange_rates
+ADD COLUMN IF NOT EXISTS is_backfilled boolean NOT NULL DEFAULT false;
+
+ALTER TABLE exchange_rates
+ADD COLUMN IF NOT EXISTS source_date date;
+
+UPDATE exchange_rates
+SET
+  is_backfilled = true,
+  source_date = (created_at AT TIME ZONE 'utc')::date
+WHERE (created_at AT TIME ZONE 'utc')::date > date;
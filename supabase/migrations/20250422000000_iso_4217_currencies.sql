@@ -0,0 +1,52 @@
+/*
+  # ISO 4217 currencies
+
+  1. Changes
+    - exchange_rates
+      - Replace the USD/SAR/EGP check constraint with the full list of
+        currencies in the app's registry (lib/currencies.ts)
+    - users
+      - enabled_currencies (text[]) - the currencies a user actually uses,
+        shown in pickers
+*/
+
+CREATE OR REPLACE FUNCTION is_supported_currency(code text)
+RETURNS boolean AS $$
+  SELECT code IN (
+    'AED', 'AFN', 'ALL', 'AMD', 'ANG', 'AOA', 'ARS', 'AUD', 'AWG', 'AZN',
+    'BAM', 'BBD', 'BDT', 'BGN', 'BHD', 'BIF', 'BMD', 'BND', 'BOB', 'BRL',
+    'BSD', 'BTN', 'BWP', 'BYN', 'BZD', 'CAD', 'CDF', 'CHF', 'CLP', 'CNY',
+    'COP', 'CRC', 'CUP', 'CVE', 'CZK', 'DJF', 'DKK', 'DOP', 'DZD', 'EGP',
+    'ERN', 'ETB', 'EUR', 'FJD', 'FKP', 'GBP', 'GEL', 'GHS', 'GIP', 'GMD',
+    'GNF', 'GTQ', 'GYD', 'HKD', 'HNL', 'HTG', 'HUF', 'IDR', 'ILS', 'INR',
+    'IQD', 'IRR', 'ISK', 'JMD', 'JOD', 'JPY', 'KES', 'KGS', 'KHR', 'KMF',
+    'KPW', 'KRW', 'KWD', 'KYD', 'KZT', 'LAK', 'LBP', 'LKR', 'LRD', 'LSL',
+    'LYD', 'MAD', 'MDL', 'MGA', 'MKD', 'MMK', 'MNT', 'MOP', 'MRU', 'MUR',
+    'MVR', 'MWK', 'MXN', 'MYR', 'MZN', 'NAD', 'NGN', 'NIO', 'NOK', 'NPR',
+    'NZD', 'OMR', 'PAB', 'PEN', 'PGK', 'PHP', 'PKR', 'PLN', 'PYG', 'QAR',
+    'RON', 'RSD', 'RUB', 'RWF', 'SAR', 'SBD', 'SCR', 'SDG', 'SEK', 'SGD',
+    'SHP', 'SLE', 'SOS', 'SRD', 'SSP', 'STN', 'SVC', 'SYP', 'SZL', 'THB',
+    'TJS', 'TMT', 'TND', 'TOP', 'TRY', 'TTD', 'TWD', 'TZS', 'UAH', 'UGX',
+    'USD', 'UYU', 'UZS', 'VES', 'VND', 'VUV', 'WST', 'XAF', 'XCD', 'XOF',
+    'XPF', 'YER', 'ZAR', 'ZMW', 'ZWG'
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE exchange_rates
+DROP CONSTRAINT IF EXISTS exchange_rates_supported_currencies;
+
+ALTER TABLE exchange_rates
+ADD CONSTRAINT exchange_rates_supported_currencies
+CHECK (
+  is_supported_currency(from_currency) AND
+  is_supported_currency(to_currency)
+);
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS enabled_currencies text[] NOT NULL DEFAULT ARRAY['USD', 'SAR', 'EGP'];
+
+-- Make sure every user's preferred currency is enabled
+UPDATE users
+SET enabled_currencies = array_append(enabled_currencies, currency_preference)
+WHERE currency_preference IS NOT NULL
+  AND NOT (currency_preference = ANY (enabled_currencies));
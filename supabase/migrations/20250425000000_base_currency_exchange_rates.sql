@@ -0,0 +1,46 @@
+/*
+  # Store exchange rates against a single base currency
+
+  1. Changes
+    - exchange_rates
+      - Every row is now a USD -> X rate. Inverse and cross rates are
+        derived by the app, so the table grows by N rows per date instead
+        of N² and SAR -> EGP always agrees with EGP -> SAR
+
+  2. Data
+    - X -> USD rows are inverted into USD -> X rows where no USD -> X row
+      exists for that date
+    - Rows not quoted against USD are removed
+*/
+
+INSERT INTO exchange_rates (
+  from_currency,
+  to_currency,
+  date,
+  rate,
+  is_backfilled,
+  source_date,
+  created_at,
+  updated_at
+)
+SELECT
+  'USD',
+  from_currency,
+  date,
+  1 / rate,
+  is_backfilled,
+  source_date,
+  created_at,
+  updated_at
+FROM exchange_rates
+WHERE to_currency = 'USD'
+  AND from_currency <> 'USD'
+  AND rate > 0
+ON CONFLICT (from_currency, to_currency, date) DO NOTHING;
+
+DELETE FROM exchange_rates
+WHERE from_currency <> 'USD';
+
+ALTER TABLE exchange_rates
+ADD CONSTRAINT exchange_rates_base_currency
+CHECK (from_currency = 'USD' AND to_currency <> 'USD');
@@ -0,0 +1,31 @@
+/*
+  # Lock the conversion rate on each transaction
+
+  1. Changes
+    - transactions
+      - base_currency (text) - the user's preferred currency when the
+        transaction was entered
+      - exchange_rate (decimal) - rate used from `currency` to
+        `base_currency`
+      - converted_amount (decimal) - `amount` in `base_currency`
+      - rate_overridden (boolean) - the rate was entered manually, e.g. the
+        rate the bank actually charged
+    - users
+      - use_locked_rates (boolean) - reports use the locked converted
+        amounts instead of recomputing them from exchange_rates
+*/
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS base_currency text;
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS exchange_rate decimal CHECK (exchange_rate > 0);
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS converted_amount decimal;
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS rate_overridden boolean NOT NULL DEFAULT false;
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS use_locked_rates boolean NOT NULL DEFAULT true;
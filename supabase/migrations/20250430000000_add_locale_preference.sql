@@ -0,0 +1,17 @@
+/*
+  # Locale-aware amount formatting
+
+  1. Changes
+    - users
+      - locale_preference (text) - locale used to format amounts, e.g.
+        en-US, ar-EG, ar-SA
+      - numbering_system (text) - latn for 0123, arab for Arabic-Indic
+        digits
+*/
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS locale_preference text NOT NULL DEFAULT 'en-US';
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS numbering_system text NOT NULL DEFAULT 'latn'
+CHECK (numbering_system IN ('latn', 'arab'));
@@ -0,0 +1,60 @@
+/*
+  # Refresh exchange rates on the server
+
+  1. Changes
+    - currencies_in_use() - every currency a user has enabled, prefers or
+      has transactions in. The refresh-exchange-rates Edge Function stores
+      rates for these currencies only.
+    - Schedules refresh-exchange-rates every 6 hours with pg_cron
+
+  2. Setup
+    - The job reads the project URL and service role key from Vault:
+        select vault.create_secret('https://<project>.supabase.co', 'project_url');
+        select vault.create_secret('<service role key>', 'service_role_key');
+    - The function itself needs the EXCHANGE_RATE_API_KEY secret
+*/
+
+CREATE OR REPLACE FUNCTION currencies_in_use()
+RETURNS text[]
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(array_agg(DISTINCT currency ORDER BY currency), '{}')
+  FROM (
+    SELECT unnest(enabled_currencies) AS currency FROM users
+    UNION
+    SELECT currency_preference FROM users
+    UNION
+    SELECT currency FROM transactions
+  ) AS currencies
+  WHERE currency IS NOT NULL;
+$$;
+
+-- Only the refresh function needs this, users shouldn't see other users'
+-- currencies
+REVOKE EXECUTE ON FUNCTION currencies_in_use() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION currencies_in_use() TO service_role;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'refresh-exchange-rates',
+  '0 */6 * * *',
+  $$
+  SELECT net.http_post(
+    url := (
+      SELECT decrypted_secret FROM vault.decrypted_secrets
+      WHERE name = 'project_url'
+    ) || '/functions/v1/refresh-exchange-rates',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (
+        SELECT decrypted_secret FROM vault.decrypted_secrets
+        WHERE name = 'service_role_key'
+      )
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
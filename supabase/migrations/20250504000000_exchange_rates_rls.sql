@@ -0,0 +1,61 @@
+/*
+  # Server-owned exchange rates and per-user custom rates
+
+  1. Changes
+    - exchange_rates
+      - source (text) - where the rate came from, e.g. exchangerate-api
+    - user_exchange_rates (new)
+      - id (uuid, primary key)
+      - user_id (uuid, foreign key)
+      - from_currency (text)
+      - to_currency (text)
+      - date (date) - the rate applies from this date until a newer one
+      - rate (decimal) - units of to_currency per from_currency
+      - source (text) - e.g. the bank the rate came from
+      - created_at (timestamp)
+      - updated_at (timestamp)
+
+  2. Security
+    - Enable RLS on exchange_rates. Authenticated users can read it, only
+      the service role (the refresh-exchange-rates Edge Function) writes
+    - Enable RLS on user_exchange_rates, users only see their own rates
+*/
+
+ALTER TABLE exchange_rates
+ADD COLUMN IF NOT EXISTS source text NOT NULL DEFAULT 'exchangerate-api';
+
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read exchange rates" ON exchange_rates;
+CREATE POLICY "Authenticated users can read exchange rates" ON exchange_rates
+  FOR SELECT TO authenticated USING (true);
+
+-- No write policies: the service role bypasses RLS, everyone else is
+-- read-only
+REVOKE INSERT, UPDATE, DELETE ON exchange_rates FROM anon, authenticated;
+
+CREATE TABLE IF NOT EXISTS user_exchange_rates (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  from_currency text NOT NULL,
+  to_currency text NOT NULL,
+  date date NOT NULL,
+  rate decimal NOT NULL CHECK (rate > 0),
+  source text NOT NULL DEFAULT 'manual',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, from_currency, to_currency, date),
+  CONSTRAINT user_exchange_rates_supported_currencies CHECK (
+    is_supported_currency(from_currency) AND
+    is_supported_currency(to_currency) AND
+    from_currency <> to_currency
+  )
+);
+
+CREATE INDEX IF NOT EXISTS user_exchange_rates_user_date_idx
+  ON user_exchange_rates (user_id, date);
+
+ALTER TABLE user_exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can access their own exchange rates" ON user_exchange_rates
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
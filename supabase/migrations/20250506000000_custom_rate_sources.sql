@@ -0,0 +1,106 @@
+/*
+  # Named custom rate sources
+
+  1. Changes
+    - rate_sources (new)
+      - id (uuid, primary key)
+      - user_id (uuid, foreign key)
+      - name (text) - e.g. "Bank" or "Parallel market"
+      - created_at (timestamp)
+    - user_exchange_rates
+      - source_id (uuid, foreign key) - replaces the free text `source`
+      - unique per source, pair and date instead of per user
+    - user_pair_sources (new) - which source a user converts a pair with.
+      Pairs without a row use the official rates in exchange_rates.
+      - user_id (uuid, foreign key)
+      - from_currency, to_currency (text) - stored alphabetically, the
+        choice applies in both directions
+      - source_id (uuid, foreign key)
+      - updated_at (timestamp)
+
+  2. Data
+    - Each distinct `source` becomes a rate source, and pairs with custom
+      rates keep using the source of their latest rate
+
+  3. Security
+    - Enable RLS on rate_sources and user_pair_sources
+    - Custom rates and pair choices can only reference the user's own
+      sources
+*/
+
+CREATE TABLE IF NOT EXISTS rate_sources (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE rate_sources ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can access their own rate sources" ON rate_sources
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+ALTER TABLE user_exchange_rates
+ADD COLUMN IF NOT EXISTS source_id uuid REFERENCES rate_sources(id) ON DELETE CASCADE;
+
+INSERT INTO rate_sources (user_id, name)
+SELECT DISTINCT user_id, source FROM user_exchange_rates
+ON CONFLICT (user_id, name) DO NOTHING;
+
+UPDATE user_exchange_rates r
+SET source_id = s.id
+FROM rate_sources s
+WHERE s.user_id = r.user_id AND s.name = r.source;
+
+ALTER TABLE user_exchange_rates ALTER COLUMN source_id SET NOT NULL;
+
+ALTER TABLE user_exchange_rates
+DROP CONSTRAINT IF EXISTS user_exchange_rates_user_id_from_currency_to_currency_date_key;
+
+ALTER TABLE user_exchange_rates
+ADD CONSTRAINT user_exchange_rates_source_pair_date_key
+UNIQUE (source_id, from_currency, to_currency, date);
+
+CREATE TABLE IF NOT EXISTS user_pair_sources (
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  from_currency text NOT NULL,
+  to_currency text NOT NULL,
+  source_id uuid NOT NULL REFERENCES rate_sources(id) ON DELETE CASCADE,
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, from_currency, to_currency),
+  CHECK (from_currency < to_currency)
+);
+
+INSERT INTO user_pair_sources (user_id, from_currency, to_currency, source_id)
+SELECT DISTINCT ON (user_id, pair_from, pair_to)
+  user_id, pair_from, pair_to, source_id
+FROM (
+  SELECT
+    user_id,
+    least(from_currency, to_currency) AS pair_from,
+    greatest(from_currency, to_currency) AS pair_to,
+    source_id,
+    date
+  FROM user_exchange_rates
+) AS pairs
+ORDER BY user_id, pair_from, pair_to, date DESC;
+
+ALTER TABLE user_exchange_rates DROP COLUMN IF EXISTS source;
+
+ALTER TABLE user_pair_sources ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can access their own pair sources" ON user_pair_sources
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id AND
+    source_id IN (SELECT id FROM rate_sources WHERE user_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Users can access their own exchange rates" ON user_exchange_rates;
+CREATE POLICY "Users can access their own exchange rates" ON user_exchange_rates
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id AND
+    source_id IN (SELECT id FROM rate_sources WHERE user_id = auth.uid())
+  );
@@ -0,0 +1,48 @@
+/*
+  # Currency exchange transactions
+
+  1. Changes
+    - transactions
+      - type can now be 'exchange': money moved from one currency to
+        another. `amount`/`currency` is what was converted, it doesn't
+        count as income or expense.
+      - destination_amount (decimal) - amount received
+      - destination_currency (text) - currency received
+      - fee (decimal) - fee paid on top of `amount`, in `currency`
+      - market_rate (decimal) - rate from `currency` to
+        `destination_currency` on the transaction date, to compare the
+        effective rate against
+*/
+
+ALTER TABLE transactions
+DROP CONSTRAINT IF EXISTS transactions_type_check;
+
+ALTER TABLE transactions
+ADD CONSTRAINT transactions_type_check
+CHECK (type IN ('income', 'expense', 'exchange'));
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS destination_amount decimal CHECK (destination_amount > 0);
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS destination_currency text;
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS fee decimal NOT NULL DEFAULT 0 CHECK (fee >= 0);
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS market_rate decimal CHECK (market_rate > 0);
+
+-- Exchanges need both sides, other transactions have no destination
+ALTER TABLE transactions
+ADD CONSTRAINT transactions_exchange_destination
+CHECK (
+  (type = 'exchange') = (
+    destination_amount IS NOT NULL AND destination_currency IS NOT NULL
+  ) AND (
+    destination_currency IS NULL OR (
+      is_supported_currency(destination_currency) AND
+      destination_currency <> currency
+    )
+  )
+);
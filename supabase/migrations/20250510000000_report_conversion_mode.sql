@@ -0,0 +1,12 @@
+/*
+  # Report conversion mode
+
+  1. Changes
+    - users
+      - conversion_mode (text) - historical converts each transaction at
+        its own date's rate, current converts everything at today's rate
+*/
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS conversion_mode text NOT NULL DEFAULT 'historical'
+CHECK (conversion_mode IN ('historical', 'current'));
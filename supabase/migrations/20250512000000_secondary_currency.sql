@@ -0,0 +1,39 @@
+/*
+  # Secondary display currency
+
+  1. Changes
+    - users
+      - secondary_currency (text) - optional second currency amounts are
+        shown in next to the preferred currency, e.g. "SAR 100 ≈ EGP 1,300"
+    - currencies_in_use() also includes secondary currencies and the
+      currencies exchanges were received in, so their rates get refreshed
+*/
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS secondary_currency text
+CHECK (
+  secondary_currency IS NULL OR (
+    is_supported_currency(secondary_currency) AND
+    secondary_currency <> currency_preference
+  )
+);
+
+CREATE OR REPLACE FUNCTION currencies_in_use()
+RETURNS text[]
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(array_agg(DISTINCT currency ORDER BY currency), '{}')
+  FROM (
+    SELECT unnest(enabled_currencies) AS currency FROM users
+    UNION
+    SELECT currency_preference FROM users
+    UNION
+    SELECT secondary_currency FROM users
+    UNION
+    SELECT currency FROM transactions
+    UNION
+    SELECT destination_currency FROM transactions
+  ) AS currencies
+  WHERE currency IS NOT NULL;
+$$;
@@ -0,0 +1,17 @@
+/*
+  # Realtime sync
+
+  1. Changes
+    - transactions, categories and users are published to Supabase
+      Realtime, so every signed-in device gets inserts, updates and deletes
+      as they happen
+    - transactions and categories keep the full old row in the log.
+      Delete events still can't be filtered by user_id, and with RLS on
+      they carry only the primary key, so the app listens for them
+      unfiltered and goes by the id alone
+*/
+
+ALTER TABLE transactions REPLICA IDENTITY FULL;
+ALTER TABLE categories REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE transactions, categories, users;
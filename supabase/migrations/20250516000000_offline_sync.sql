@@ -0,0 +1,37 @@
+/*
+  # Offline sync
+
+  1. Changes
+    - categories
+      - updated_at (timestamp) - when the category last changed, as on
+        transactions
+    - Updates older than the stored row, by updated_at, are skipped on
+      transactions and categories
+*/
+
+ALTER TABLE categories
+ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+-- Last write wins: an update older than the stored row is skipped, so a
+-- device coming back online can't overwrite edits made since
+CREATE OR REPLACE FUNCTION skip_stale_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.updated_at IS NOT NULL AND NEW.updated_at < OLD.updated_at THEN
+    RETURN NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS skip_stale_transaction_update ON transactions;
+CREATE TRIGGER skip_stale_transaction_update
+  BEFORE UPDATE ON transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION skip_stale_update();
+
+DROP TRIGGER IF EXISTS skip_stale_category_update ON categories;
+CREATE TRIGGER skip_stale_category_update
+  BEFORE UPDATE ON categories
+  FOR EACH ROW
+  EXECUTE FUNCTION skip_stale_update();
@@ -0,0 +1,32 @@
+/*
+  # Saved transaction views
+
+  1. Changes
+    - saved_views (new) - named filters pinned on the Transactions screen
+      - id (uuid, primary key)
+      - user_id (uuid, foreign key)
+      - name (text) - e.g. "Dining this month"
+      - filters (jsonb) - the screen's filter route params, so a view
+        opens the same list a link to it would
+      - sort (text) - date, amount, converted_amount or category
+      - created_at (timestamp)
+
+  2. Security
+    - Enable RLS on saved_views
+*/
+
+CREATE TABLE IF NOT EXISTS saved_views (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  filters jsonb NOT NULL DEFAULT '{}'::jsonb,
+  sort text NOT NULL DEFAULT 'date'
+    CHECK (sort IN ('date', 'amount', 'converted_amount', 'category')),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE saved_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can access their own saved views" ON saved_views
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
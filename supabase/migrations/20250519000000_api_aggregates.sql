@@ -0,0 +1,12 @@
+/*
+  # Aggregates in the API
+
+  1. Changes
+    - Enable PostgREST aggregate functions (sum, count, ...) so totals,
+      like the saved view chips', are summed on the server instead of
+      loading every matching transaction
+*/
+
+ALTER ROLE authenticator SET pgrst.db_aggregates_enabled = 'true';
+
+NOTIFY pgrst, 'reload config';
@@ -0,0 +1,12 @@
+/*
+  # Transaction day
+
+  1. Changes
+    - transactions.day (date, generated) - the UTC day of `date`, the day
+      exchange rates are stored for, so amounts summed on the server per
+      currency and day can still be converted at each day's rate
+*/
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS day date
+  GENERATED ALWAYS AS ((date AT TIME ZONE 'UTC')::date) STORED;
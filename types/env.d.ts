@@ -3,8 +3,10 @@ declare global {
     interface ProcessEnv {
       EXPO_PUBLIC_SUPABASE_URL: string;
       EXPO_PUBLIC_SUPABASE_ANON_KEY: string;
+      EXPO_PUBLIC_EXCHANGE_RATE_PROVIDER?: 'edge-function' | 'fixture';
+      EXPO_PUBLIC_RATE_FALLBACK_DAYS?: string;
     }
   }
 }
 
-export {};
\ No newline at end of file
+export {};